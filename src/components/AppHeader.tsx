@@ -0,0 +1,55 @@
+import { Link, NavLink, useLocation } from "react-router-dom";
+import { CalendarClock, Library, Play, Radio, Settings } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const NAV_ITEMS = [
+  { to: "/", label: "Watch", icon: Play },
+  { to: "/guide", label: "Guide", icon: CalendarClock },
+  { to: "/library", label: "Library", icon: Library },
+  { to: "/settings", label: "Settings", icon: Settings },
+];
+
+const WATCH_PATHS = /^\/($|watch\/|play)/;
+
+export const AppHeader = () => {
+  const { pathname } = useLocation();
+  const isWatching = WATCH_PATHS.test(pathname);
+
+  return (
+    <header className="border-b border-border/50 backdrop-blur-sm bg-background/50 sticky top-0 z-50">
+      <div className="container mx-auto px-4 py-4">
+        <div className="flex items-center justify-between gap-4">
+          <Link to="/" className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-primary to-blue-500 flex items-center justify-center">
+              <Radio className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold bg-gradient-to-r from-primary via-purple-400 to-blue-400 bg-clip-text text-transparent">
+                StreamPlay
+              </h1>
+              <p className="text-xs text-muted-foreground hidden sm:block">Modern Live Streaming</p>
+            </div>
+          </Link>
+          <nav className="flex items-center gap-1">
+            {NAV_ITEMS.map(({ to, label, icon: Icon }) => (
+              <NavLink
+                key={to}
+                to={to}
+                end
+                className={({ isActive }) =>
+                  cn(
+                    "flex items-center gap-2 rounded-md px-3 py-2 text-sm text-muted-foreground transition-colors hover:bg-accent hover:text-foreground",
+                    (to === "/" ? isWatching : isActive) && "bg-primary/10 text-primary"
+                  )
+                }
+              >
+                <Icon className="w-4 h-4" />
+                <span className="hidden md:inline">{label}</span>
+              </NavLink>
+            ))}
+          </nav>
+        </div>
+      </div>
+    </header>
+  );
+};
@@ -0,0 +1,84 @@
+import { ArrowDown, ArrowUp, MoreVertical, Star, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useLibraryActions } from "@/hooks/use-library";
+import type { LibraryChannel, LibraryGroup } from "@/lib/library/types";
+import { cn } from "@/lib/utils";
+
+interface ChannelActionsProps {
+  channel: LibraryChannel;
+  groups: LibraryGroup[];
+  onMove?: (offset: -1 | 1) => void;
+  canMoveUp?: boolean;
+  canMoveDown?: boolean;
+}
+
+export const ChannelActions = ({ channel, groups, onMove, canMoveUp = false, canMoveDown = false }: ChannelActionsProps) => {
+  const { setFavorite, setGroupMembership, removeChannel } = useLibraryActions();
+
+  return (
+    <div className="flex items-center">
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8"
+        aria-label={channel.favorite ? "Remove from favorites" : "Add to favorites"}
+        onClick={() => setFavorite(channel.id, !channel.favorite)}
+      >
+        <Star className={cn("w-4 h-4", channel.favorite && "fill-yellow-400 text-yellow-400")} />
+      </Button>
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button size="icon" variant="ghost" className="h-8 w-8" aria-label="Channel options">
+            <MoreVertical className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Add to group</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+              {groups.length === 0 && <DropdownMenuItem disabled>No groups yet</DropdownMenuItem>}
+              {groups.map((group) => (
+                <DropdownMenuCheckboxItem
+                  key={group.id}
+                  checked={group.channelIds.includes(channel.id)}
+                  onCheckedChange={(checked) => setGroupMembership(group.id, channel.id, checked)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {group.name}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          {onMove && (
+            <>
+              <DropdownMenuItem disabled={!canMoveUp} onSelect={() => onMove(-1)}>
+                <ArrowUp className="w-4 h-4 mr-2" />
+                Move up
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={!canMoveDown} onSelect={() => onMove(1)}>
+                <ArrowDown className="w-4 h-4 mr-2" />
+                Move down
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="text-destructive" onSelect={() => removeChannel(channel.id)}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Remove
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import { useMemo, type ReactNode } from "react";
+import { Play, Tv } from "lucide-react";
+import { NowNext } from "@/components/NowNext";
+import { Card } from "@/components/ui/card";
+import type { StreamSource } from "@/lib/iptv/types";
+import { getChannelProgrammes, type EpgGuide } from "@/lib/iptv/xmltv";
+import { streamTypeLabel } from "@/lib/routes";
+import { cn } from "@/lib/utils";
+
+interface ChannelListProps {
+  channels: StreamSource[];
+  currentSrc?: string;
+  guide?: EpgGuide | null;
+  now?: number;
+  /** Group cards under their `group-title`; off for flat lists such as favorites. */
+  grouped?: boolean;
+  onSelect: (channel: StreamSource) => void;
+  renderActions?: (channel: StreamSource, siblings: StreamSource[]) => ReactNode;
+}
+
+const UNGROUPED = "Other";
+
+export const ChannelList = ({
+  channels,
+  currentSrc,
+  guide = null,
+  now = Date.now(),
+  grouped = true,
+  onSelect,
+  renderActions,
+}: ChannelListProps) => {
+  const groups = useMemo(() => {
+    if (!grouped) return [[null, channels] as const];
+    const byGroup = new Map<string, StreamSource[]>();
+    for (const channel of channels) {
+      const group = channel.group || UNGROUPED;
+      if (!byGroup.has(group)) byGroup.set(group, []);
+      byGroup.get(group).push(channel);
+    }
+    return [...byGroup];
+  }, [channels, grouped]);
+
+  return (
+    <div className="space-y-6">
+      {groups.map(([group, items]) => (
+        <section key={group ?? ""}>
+          {group && (
+            <h4 className="text-sm font-semibold text-muted-foreground mb-2">
+              {group} <span className="font-normal">({items.length})</span>
+            </h4>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {items.map((channel) => {
+              const isCurrent = channel.src === currentSrc;
+              return (
+                <Card
+                  key={channel.id ?? channel.src}
+                  className={cn(
+                    "p-3 flex items-center gap-3 cursor-pointer transition-all hover:border-primary/50 bg-card/50",
+                    isCurrent && "border-primary shadow-lg shadow-primary/20"
+                  )}
+                  onClick={() => onSelect(channel)}
+                >
+                  <div className="w-12 h-12 shrink-0 rounded bg-muted flex items-center justify-center overflow-hidden">
+                    {channel.logo ? (
+                      <img src={channel.logo} alt="" loading="lazy" className="max-w-full max-h-full object-contain" />
+                    ) : (
+                      <Tv className="w-5 h-5 text-muted-foreground" />
+                    )}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      {channel.channelNumber !== undefined && (
+                        <span className="text-xs font-mono text-muted-foreground">{channel.channelNumber}</span>
+                      )}
+                      <span className="font-medium truncate">{channel.name}</span>
+                    </div>
+                    {guide ? (
+                      <NowNext programmes={getChannelProgrammes(guide, channel)} now={now} compact className="mt-1" />
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{streamTypeLabel(channel)}</span>
+                    )}
+                  </div>
+                  {isCurrent && <Play className="w-4 h-4 text-primary fill-current shrink-0" />}
+                  {renderActions && (
+                    <div className="shrink-0" onClick={(e) => e.stopPropagation()}>
+                      {renderActions(channel, items)}
+                    </div>
+                  )}
+                </Card>
+              );
+            })}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
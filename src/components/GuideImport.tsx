@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from "react";
+import { CalendarClock, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useIptv } from "@/hooks/use-iptv";
+import { usePlaylists } from "@/hooks/use-library";
+import { loadXmltv } from "@/lib/iptv/xmltv";
+import { toast } from "sonner";
+
+export const GuideImport = () => {
+  const { guide, setGuide } = useIptv();
+  const { data: playlists = [] } = usePlaylists();
+  const guideUrl = playlists.find((playlist) => playlist.guideUrl)?.guideUrl ?? null;
+  const [url, setUrl] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (guideUrl) setUrl(guideUrl);
+  }, [guideUrl]);
+
+  const importGuide = async (input: string | File) => {
+    setIsLoading(true);
+    try {
+      const loaded = await loadXmltv(input);
+      setGuide(loaded);
+      toast.success(`Loaded guide for ${loaded.programmes.size} channel${loaded.programmes.size === 1 ? "" : "s"}`);
+    } catch (error) {
+      console.error("Guide import failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load program guide");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLoadUrl = () => {
+    if (!/^https?:\/\//i.test(url.trim())) {
+      toast.error("Please enter an XMLTV guide URL");
+      return;
+    }
+    importGuide(url.trim());
+  };
+
+  return (
+    <Card className="p-6 mb-8 bg-card/50 backdrop-blur-sm border-border/50">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <CalendarClock className="w-5 h-5 text-primary" />
+        Program Guide
+        {guide && (
+          <span className="ml-auto text-xs font-normal text-muted-foreground">
+            {guide.programmes.size} channels loaded
+          </span>
+        )}
+      </h3>
+      <div className="flex flex-wrap gap-3">
+        <Input
+          placeholder="https://example.com/guide.xml.gz"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleLoadUrl()}
+          className="flex-1 min-w-48 bg-background/50"
+        />
+        <Button onClick={handleLoadUrl} disabled={isLoading}>
+          {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Load Guide
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+          <Upload className="w-4 h-4 mr-2" />
+          File
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".xml,.gz,.xml.gz,application/xml,text/xml,application/gzip"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importGuide(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground mt-3">
+        XMLTV guides (.xml or gzipped .xml.gz) are matched to channels by tvg-id
+      </p>
+    </Card>
+  );
+};
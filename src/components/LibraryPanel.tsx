@@ -0,0 +1,346 @@
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, Check, FolderPlus, History, Library, ListVideo, Pencil, RefreshCw, Star, Trash2, X } from "lucide-react";
+import { ChannelActions } from "@/components/ChannelActions";
+import { ChannelList } from "@/components/ChannelList";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useChannels, useGroups, useLibraryActions, usePlaylists, useRecents } from "@/hooks/use-library";
+import { getPlaylistGuideUrl, loadM3u, toStreamSource } from "@/lib/iptv/m3u";
+import type { StreamSource } from "@/lib/iptv/types";
+import type { EpgGuide } from "@/lib/iptv/xmltv";
+import type { LibraryChannel, LibraryGroup, LibraryPlaylist } from "@/lib/library/types";
+import { streamTypeLabel } from "@/lib/routes";
+import { toast } from "sonner";
+
+interface LibraryPanelProps {
+  currentSrc?: string;
+  guide?: EpgGuide | null;
+  now: number;
+  onSelect: (channel: StreamSource) => void;
+}
+
+/** Returns `ids` with `id` swapped with its neighbour at `offset`. */
+const moveId = (ids: string[], id: string, offset: -1 | 1) => {
+  const from = ids.indexOf(id);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= ids.length) return ids;
+  const next = [...ids];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
+
+const relativeTime = new Intl.RelativeTimeFormat(undefined, { numeric: "auto" });
+
+const formatWatchedAt = (time: number, now: number) => {
+  const minutes = Math.round((time - now) / 60_000);
+  if (Math.abs(minutes) < 60) return relativeTime.format(minutes, "minute");
+  const hours = Math.round(minutes / 60);
+  if (Math.abs(hours) < 24) return relativeTime.format(hours, "hour");
+  return relativeTime.format(Math.round(hours / 24), "day");
+};
+
+const EmptyState = ({ children }: { children: React.ReactNode }) => (
+  <p className="py-6 text-center text-sm text-muted-foreground">{children}</p>
+);
+
+export const LibraryPanel = ({ currentSrc, guide = null, now, onSelect }: LibraryPanelProps) => {
+  const { data: channels = [] } = useChannels();
+  const { data: playlists = [] } = usePlaylists();
+  const { data: groups = [] } = useGroups();
+  const { data: recents = [] } = useRecents();
+  const actions = useLibraryActions();
+  const [newGroupName, setNewGroupName] = useState("");
+  const [editingGroup, setEditingGroup] = useState<{ id: string; name: string } | null>(null);
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+
+  const channelsById = useMemo(() => new Map(channels.map((channel) => [channel.id, channel])), [channels]);
+  const favorites = useMemo(() => channels.filter((channel) => channel.favorite), [channels]);
+
+  const renderActions =
+    (onMove?: (channel: LibraryChannel, siblings: StreamSource[], offset: -1 | 1) => void) =>
+    (channel: StreamSource, siblings: StreamSource[]) => {
+      const libraryChannel = channelsById.get(channel.id);
+      if (!libraryChannel) return null;
+      const index = siblings.indexOf(channel);
+      return (
+        <ChannelActions
+          channel={libraryChannel}
+          groups={groups}
+          onMove={onMove && ((offset) => onMove(libraryChannel, siblings, offset))}
+          canMoveUp={index > 0}
+          canMoveDown={index < siblings.length - 1}
+        />
+      );
+    };
+
+  // Within a group-title section, swap with the visible neighbour rather than the global one.
+  const moveChannel = (channel: LibraryChannel, siblings: StreamSource[], offset: -1 | 1) => {
+    const neighbour = siblings[siblings.indexOf(channel) + offset];
+    if (!neighbour) return;
+    const ids = channels.map(({ id }) => id);
+    const from = ids.indexOf(channel.id);
+    const to = ids.indexOf(neighbour.id);
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    actions.reorderChannels(ids);
+  };
+
+  const moveGroupChannel = (group: LibraryGroup) => (channel: LibraryChannel, _siblings: StreamSource[], offset: -1 | 1) =>
+    actions.reorderGroupChannels(group.id, moveId(group.channelIds, channel.id, offset));
+
+  const handleRefreshPlaylist = async (playlist: LibraryPlaylist) => {
+    if (!playlist.url) return;
+    setRefreshingId(playlist.id);
+    try {
+      const parsed = await loadM3u(playlist.url);
+      const saved = await actions.savePlaylist(
+        { name: playlist.name, url: playlist.url, guideUrl: getPlaylistGuideUrl(parsed) ?? playlist.guideUrl },
+        parsed.entries.map(toStreamSource)
+      );
+      if (saved) toast.success(`Refreshed ${playlist.name} (${saved.channelCount} channels)`);
+    } catch (error) {
+      console.error("Playlist refresh failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to refresh playlist");
+    } finally {
+      setRefreshingId(null);
+    }
+  };
+
+  const handleCreateGroup = async () => {
+    if (!newGroupName.trim()) return;
+    if (await actions.createGroup(newGroupName)) setNewGroupName("");
+  };
+
+  const handleRenameGroup = async () => {
+    if (!editingGroup) return;
+    await actions.renameGroup(editingGroup.id, editingGroup.name);
+    setEditingGroup(null);
+  };
+
+  return (
+    <Card className="p-6 mb-8 bg-card/50 backdrop-blur-sm border-border/50">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Library className="w-5 h-5 text-primary" />
+        Library
+      </h3>
+      <Tabs defaultValue="channels">
+        <TabsList className="mb-4 flex-wrap h-auto">
+          <TabsTrigger value="channels">
+            <ListVideo className="w-3 h-3 mr-2" />
+            Channels ({channels.length})
+          </TabsTrigger>
+          <TabsTrigger value="favorites">
+            <Star className="w-3 h-3 mr-2" />
+            Favorites ({favorites.length})
+          </TabsTrigger>
+          <TabsTrigger value="recent">
+            <History className="w-3 h-3 mr-2" />
+            Recent
+          </TabsTrigger>
+          <TabsTrigger value="groups">
+            <FolderPlus className="w-3 h-3 mr-2" />
+            Groups ({groups.length})
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="channels" className="space-y-4">
+          {playlists.length > 0 && (
+            <div className="space-y-2">
+              {playlists.map((playlist) => (
+                <div key={playlist.id} className="flex items-center gap-3 rounded-md border border-border/50 px-3 py-2 text-sm">
+                  <ListVideo className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <span className="truncate font-medium">{playlist.name}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">{playlist.channelCount} channels</span>
+                  <div className="ml-auto flex shrink-0">
+                    {playlist.url && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        aria-label="Refresh playlist"
+                        disabled={refreshingId === playlist.id}
+                        onClick={() => handleRefreshPlaylist(playlist)}
+                      >
+                        <RefreshCw className={refreshingId === playlist.id ? "w-4 h-4 animate-spin" : "w-4 h-4"} />
+                      </Button>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      aria-label="Remove playlist"
+                      onClick={() => actions.removePlaylist(playlist.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {channels.length > 0 ? (
+            <ChannelList
+              channels={channels}
+              currentSrc={currentSrc}
+              guide={guide}
+              now={now}
+              onSelect={onSelect}
+              renderActions={renderActions(moveChannel)}
+            />
+          ) : (
+            <EmptyState>Import a playlist or load a stream URL to start your library.</EmptyState>
+          )}
+        </TabsContent>
+
+        <TabsContent value="favorites">
+          {favorites.length > 0 ? (
+            <ChannelList
+              channels={favorites}
+              currentSrc={currentSrc}
+              guide={guide}
+              now={now}
+              grouped={false}
+              onSelect={onSelect}
+              renderActions={renderActions()}
+            />
+          ) : (
+            <EmptyState>Star a channel to keep it here.</EmptyState>
+          )}
+        </TabsContent>
+
+        <TabsContent value="recent">
+          {recents.length > 0 ? (
+            <div className="space-y-2">
+              <div className="flex justify-end">
+                <Button size="sm" variant="ghost" onClick={() => actions.clearRecents()}>
+                  Clear history
+                </Button>
+              </div>
+              {recents.map(({ id, channel, watchedAt }) => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => onSelect(channel)}
+                  className="flex w-full items-center gap-3 rounded-md border border-border/50 px-3 py-2 text-left text-sm hover:bg-accent"
+                >
+                  <History className="w-4 h-4 text-muted-foreground shrink-0" />
+                  <span className="truncate font-medium">{channel.name}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">{streamTypeLabel(channel)}</span>
+                  <span className="ml-auto text-xs text-muted-foreground shrink-0">{formatWatchedAt(watchedAt, now)}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <EmptyState>Streams you watch will show up here.</EmptyState>
+          )}
+        </TabsContent>
+
+        <TabsContent value="groups" className="space-y-6">
+          <div className="flex gap-3">
+            <Input
+              placeholder="New group name"
+              value={newGroupName}
+              onChange={(e) => setNewGroupName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreateGroup()}
+              className="flex-1 bg-background/50"
+            />
+            <Button onClick={handleCreateGroup}>
+              <FolderPlus className="w-4 h-4 mr-2" />
+              Create
+            </Button>
+          </div>
+
+          {groups.length === 0 && <EmptyState>Create a group, then add channels to it from their menu.</EmptyState>}
+
+          {groups.map((group, index) => {
+            const members = group.channelIds.map((id) => channelsById.get(id)).filter(Boolean);
+            const isEditing = editingGroup?.id === group.id;
+            return (
+              <section key={group.id} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  {isEditing ? (
+                    <>
+                      <Input
+                        value={editingGroup.name}
+                        onChange={(e) => setEditingGroup({ ...editingGroup, name: e.target.value })}
+                        onKeyDown={(e) => e.key === "Enter" && handleRenameGroup()}
+                        className="h-8 max-w-xs"
+                        autoFocus
+                      />
+                      <Button size="icon" variant="ghost" className="h-8 w-8" aria-label="Save" onClick={handleRenameGroup}>
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-8 w-8" aria-label="Cancel" onClick={() => setEditingGroup(null)}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <h4 className="text-sm font-semibold">
+                        {group.name} <span className="font-normal text-muted-foreground">({members.length})</span>
+                      </h4>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        aria-label="Rename group"
+                        onClick={() => setEditingGroup({ id: group.id, name: group.name })}
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                    </>
+                  )}
+                  <div className="ml-auto flex">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      aria-label="Move group up"
+                      disabled={index === 0}
+                      onClick={() => actions.reorderGroups(moveId(groups.map(({ id }) => id), group.id, -1))}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      aria-label="Move group down"
+                      disabled={index === groups.length - 1}
+                      onClick={() => actions.reorderGroups(moveId(groups.map(({ id }) => id), group.id, 1))}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      aria-label="Delete group"
+                      onClick={() => actions.deleteGroup(group.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                {members.length > 0 ? (
+                  <ChannelList
+                    channels={members}
+                    currentSrc={currentSrc}
+                    guide={guide}
+                    now={now}
+                    grouped={false}
+                    onSelect={onSelect}
+                    renderActions={renderActions(moveGroupChannel(group))}
+                  />
+                ) : (
+                  <p className="text-xs text-muted-foreground">No channels in this group yet.</p>
+                )}
+              </section>
+            );
+          })}
+        </TabsContent>
+      </Tabs>
+    </Card>
+  );
+};
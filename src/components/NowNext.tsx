@@ -0,0 +1,44 @@
+import { Progress } from "@/components/ui/progress";
+import { formatClockTime, getNowNext, type EpgProgramme } from "@/lib/iptv/xmltv";
+import { cn } from "@/lib/utils";
+
+interface NowNextProps {
+  programmes: EpgProgramme[];
+  now: number;
+  compact?: boolean;
+  className?: string;
+}
+
+export const NowNext = ({ programmes, now, compact = false, className }: NowNextProps) => {
+  const { now: current, next } = getNowNext(programmes, now);
+  if (!current && !next) return null;
+
+  const progress = current ? ((now - current.start) / Math.max(current.stop - current.start, 1)) * 100 : 0;
+
+  return (
+    <div className={cn("min-w-0 space-y-1 text-xs", className)}>
+      {current && (
+        <div className="min-w-0">
+          <div className="flex items-baseline gap-2">
+            <span className="shrink-0 font-semibold text-primary">Now</span>
+            <span className={cn("truncate text-foreground", !compact && "text-sm font-medium")}>{current.title}</span>
+            <span className="ml-auto shrink-0 text-muted-foreground">
+              {formatClockTime(current.start)}–{formatClockTime(current.stop)}
+            </span>
+          </div>
+          <Progress value={progress} className="mt-1 h-1" />
+          {!compact && current.description && (
+            <p className="mt-1 line-clamp-2 text-muted-foreground">{current.description}</p>
+          )}
+        </div>
+      )}
+      {next && (
+        <div className="flex items-baseline gap-2 text-muted-foreground">
+          <span className="shrink-0 font-semibold">Next</span>
+          <span className="truncate">{next.title}</span>
+          <span className="ml-auto shrink-0">{formatClockTime(next.start)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
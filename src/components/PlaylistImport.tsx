@@ -0,0 +1,142 @@
+import { useRef, useState } from "react";
+import { ClipboardPaste, Link, ListVideo, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { loadM3u, toStreamSource, type M3uPlaylist } from "@/lib/iptv/m3u";
+import type { StreamSource } from "@/lib/iptv/types";
+import { toast } from "sonner";
+
+export interface PlaylistOrigin {
+  name: string;
+  /** Source URL, so the playlist can be refreshed later; `null` for pasted or uploaded files. */
+  url: string | null;
+}
+
+interface PlaylistImportProps {
+  onImport: (channels: StreamSource[], playlist: M3uPlaylist, origin: PlaylistOrigin) => void | Promise<void>;
+}
+
+const getPlaylistOrigin = (input: string | File): PlaylistOrigin => {
+  if (input instanceof File) return { name: input.name, url: null };
+  if (!/^https?:\/\//i.test(input)) return { name: "Pasted playlist", url: null };
+  try {
+    const { hostname, pathname } = new URL(input);
+    return { name: decodeURIComponent(pathname.split("/").pop() || hostname), url: input };
+  } catch {
+    return { name: input, url: input };
+  }
+};
+
+export const PlaylistImport = ({ onImport }: PlaylistImportProps) => {
+  const [url, setUrl] = useState("");
+  const [text, setText] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const importPlaylist = async (input: string | File) => {
+    setIsImporting(true);
+    try {
+      const playlist = await loadM3u(input);
+      const channels = playlist.entries.map(toStreamSource);
+      await onImport(channels, playlist, getPlaylistOrigin(input));
+    } catch (error) {
+      console.error("Playlist import failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import playlist");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleImportUrl = () => {
+    if (!/^https?:\/\//i.test(url.trim())) {
+      toast.error("Please enter a playlist URL");
+      return;
+    }
+    importPlaylist(url.trim());
+  };
+
+  const handleImportText = () => {
+    if (!text.trim()) {
+      toast.error("Please paste an M3U playlist");
+      return;
+    }
+    importPlaylist(text);
+  };
+
+  return (
+    <Card className="p-6 mb-8 bg-card/50 backdrop-blur-sm border-border/50">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <ListVideo className="w-5 h-5 text-primary" />
+        Import Playlist
+      </h3>
+      <Tabs defaultValue="url">
+        <TabsList className="mb-3">
+          <TabsTrigger value="url">
+            <Link className="w-3 h-3 mr-2" />
+            URL
+          </TabsTrigger>
+          <TabsTrigger value="paste">
+            <ClipboardPaste className="w-3 h-3 mr-2" />
+            Paste
+          </TabsTrigger>
+          <TabsTrigger value="upload">
+            <Upload className="w-3 h-3 mr-2" />
+            Upload
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="url" className="flex gap-3">
+          <Input
+            placeholder="https://example.com/playlist.m3u"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleImportUrl()}
+            className="flex-1 bg-background/50"
+          />
+          <Button onClick={handleImportUrl} disabled={isImporting}>
+            {isImporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Import
+          </Button>
+        </TabsContent>
+
+        <TabsContent value="paste" className="space-y-3">
+          <Textarea
+            placeholder={"#EXTM3U\n#EXTINF:-1 tvg-id=\"...\" group-title=\"News\",Channel name\nhttps://example.com/stream.m3u8"}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="min-h-32 font-mono text-xs bg-background/50"
+          />
+          <Button onClick={handleImportText} disabled={isImporting}>
+            {isImporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Import
+          </Button>
+        </TabsContent>
+
+        <TabsContent value="upload">
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Choose .m3u file
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".m3u,.m3u8,audio/x-mpegurl,application/x-mpegurl,application/vnd.apple.mpegurl"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importPlaylist(file);
+              e.target.value = "";
+            }}
+          />
+        </TabsContent>
+      </Tabs>
+      <p className="text-xs text-muted-foreground mt-3">
+        Reads #EXTINF attributes (tvg-id, tvg-name, tvg-logo, group-title, tvg-chno) along with #EXTVLCOPT
+        and #KODIPROP headers and DRM licenses
+      </p>
+    </Card>
+  );
+};
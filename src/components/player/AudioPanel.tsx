@@ -0,0 +1,47 @@
+import { useEffect, useState } from "react";
+import { Music, Radio } from "lucide-react";
+import type { NowPlaying } from "@/lib/player/types";
+
+interface AudioPanelProps {
+  title?: string;
+  artwork?: string;
+  nowPlaying: NowPlaying | null;
+}
+
+/** Station artwork and now-playing info, shown in place of the picture for audio-only streams. */
+export const AudioPanel = ({ title, artwork, nowPlaying }: AudioPanelProps) => {
+  const [artworkFailed, setArtworkFailed] = useState(false);
+
+  useEffect(() => setArtworkFailed(false), [artwork]);
+
+  const track = [nowPlaying?.artist, nowPlaying?.title].filter(Boolean).join(" – ");
+
+  return (
+    <div className="absolute inset-x-0 top-0 flex items-center gap-4 px-6 pt-5">
+      {artwork && !artworkFailed ? (
+        <img
+          src={artwork}
+          alt=""
+          className="w-16 h-16 shrink-0 rounded-md object-cover bg-white/5"
+          onError={() => setArtworkFailed(true)}
+        />
+      ) : (
+        <div className="w-16 h-16 shrink-0 rounded-md bg-gradient-to-br from-primary to-blue-500 flex items-center justify-center">
+          <Radio className="w-8 h-8 text-white" />
+        </div>
+      )}
+      <div className="min-w-0">
+        {title && <div className="text-lg font-semibold text-white truncate">{title}</div>}
+        {track ? (
+          <div className="flex items-center gap-1.5 text-sm text-gray-300">
+            <Music className="w-3.5 h-3.5 shrink-0 text-primary" />
+            <span className="truncate">{track}</span>
+          </div>
+        ) : (
+          <div className="text-sm text-gray-400">Audio stream</div>
+        )}
+        {nowPlaying?.album && <div className="text-xs text-gray-500 truncate">{nowPlaying.album}</div>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { getCueText } from "@/lib/player/subtitles";
+import { cn } from "@/lib/utils";
+
+interface CaptionOverlayProps {
+  track: TextTrack | null;
+  raised?: boolean;
+}
+
+/**
+ * Renders the active cues of a hidden text track inside the player, so
+ * captions follow the container into fullscreen and share one style across
+ * engines.
+ */
+export const CaptionOverlay = ({ track, raised }: CaptionOverlayProps) => {
+  const [lines, setLines] = useState<string[]>([]);
+
+  useEffect(() => {
+    setLines([]);
+    if (!track) return;
+
+    const handleCueChange = () => {
+      const cues = track.activeCues ? [...track.activeCues] : [];
+      setLines(cues.map(getCueText).filter(Boolean));
+    };
+
+    handleCueChange();
+    track.addEventListener("cuechange", handleCueChange);
+    return () => track.removeEventListener("cuechange", handleCueChange);
+  }, [track]);
+
+  if (lines.length === 0) return null;
+
+  return (
+    <div
+      className={cn(
+        "pointer-events-none absolute left-0 right-0 flex flex-col items-center gap-1 px-6 transition-all duration-300",
+        raised ? "bottom-32" : "bottom-8"
+      )}
+      aria-live="polite"
+    >
+      {lines.map((line, index) => (
+        <span
+          key={index}
+          className="max-w-[90%] whitespace-pre-line rounded bg-black/75 px-3 py-1 text-center text-base text-white sm:text-lg md:text-2xl"
+        >
+          {line}
+        </span>
+      ))}
+    </div>
+  );
+};
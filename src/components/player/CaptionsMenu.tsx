@@ -0,0 +1,138 @@
+import { useRef, useState } from "react";
+import { Captions, Check, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { SIDELOADED_SUBTITLE_ID } from "@/hooks/use-stream-player";
+import { formatLanguage } from "@/lib/player/audio-tracks";
+import type { SubtitleTrack } from "@/lib/player/types";
+import { cn } from "@/lib/utils";
+
+interface CaptionsMenuProps {
+  tracks: SubtitleTrack[];
+  sideloadedLabel: string | null;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onSideload: (input: string | File) => void;
+  container?: HTMLElement | null;
+}
+
+const formatSubtitleLabel = (track: SubtitleTrack) => {
+  const label = track.label || formatLanguage(track.language);
+  return track.source === "embedded" ? `${label} (CC)` : label;
+};
+
+const CaptionOption = ({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={cn(
+      "flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent",
+      active && "font-medium"
+    )}
+  >
+    <Check className={cn("h-4 w-4 shrink-0", active ? "opacity-100" : "opacity-0")} />
+    <span className="truncate">{children}</span>
+  </button>
+);
+
+export const CaptionsMenu = ({
+  tracks,
+  sideloadedLabel,
+  selectedId,
+  onSelect,
+  onSideload,
+  container,
+}: CaptionsMenuProps) => {
+  const [url, setUrl] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleLoadUrl = () => {
+    if (!url.trim()) return;
+    onSideload(url.trim());
+    setUrl("");
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="ghost"
+          className={cn("hover:bg-primary/20", selectedId && "text-primary")}
+          aria-label="Subtitles and captions"
+        >
+          <Captions className="w-5 h-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent container={container} align="end" side="top" className="w-72 p-2">
+        <div className="px-2 pb-1 text-xs font-semibold text-muted-foreground">Subtitles / CC</div>
+        <div className="max-h-48 overflow-y-auto">
+          <CaptionOption active={selectedId === null} onClick={() => onSelect(null)}>
+            Off
+          </CaptionOption>
+          {tracks.map((track) => (
+            <CaptionOption key={track.id} active={selectedId === track.id} onClick={() => onSelect(track.id)}>
+              {formatSubtitleLabel(track)}
+            </CaptionOption>
+          ))}
+          {sideloadedLabel && (
+            <CaptionOption
+              active={selectedId === SIDELOADED_SUBTITLE_ID}
+              onClick={() => onSelect(SIDELOADED_SUBTITLE_ID)}
+            >
+              {sideloadedLabel}
+            </CaptionOption>
+          )}
+        </div>
+
+        <Separator className="my-2" />
+
+        <div className="space-y-2 px-2 pb-1">
+          <div className="text-xs font-semibold text-muted-foreground">Load .vtt or .srt</div>
+          <div className="flex gap-2">
+            <Input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleLoadUrl()}
+              placeholder="https://example.com/subs.vtt"
+              className="h-8 text-xs"
+            />
+            <Button size="sm" className="h-8" onClick={handleLoadUrl}>
+              Load
+            </Button>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 w-full"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-3 h-3 mr-2" />
+            Choose file
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".vtt,.srt,text/vtt"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onSideload(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
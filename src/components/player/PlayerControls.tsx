@@ -0,0 +1,233 @@
+import { Play, Pause, Volume2, VolumeX, Maximize } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { CaptionsMenu } from "@/components/player/CaptionsMenu";
+import { PlayerSettingsMenu } from "@/components/player/PlayerSettingsMenu";
+import { formatSourceLabel, type StreamPlayerController } from "@/hooks/use-stream-player";
+import { setPreferredAudioLanguage } from "@/lib/player/preferences";
+import type { AudioTrack } from "@/lib/player/types";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface PlayerControlsProps {
+  player: StreamPlayerController;
+  visible: boolean;
+  /** Portal target for menus, so they stay visible in fullscreen. */
+  container: HTMLElement | null;
+  /** Omitted when fullscreen makes no sense, e.g. for audio-only streams. */
+  onToggleFullscreen?: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  if (!isFinite(seconds)) return "0:00";
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  if (hours > 0) {
+    return `${hours}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+/** The default control bar, built on the `useStreamPlayer` controller. */
+export const PlayerControls = ({ player, visible, container, onToggleFullscreen }: PlayerControlsProps) => {
+  const {
+    isPlaying,
+    currentTime,
+    duration,
+    isLive,
+    seekableRange,
+    behindLive,
+    isAtLiveEdge,
+    latency,
+    isLowLatency,
+    settings,
+    videoTracks,
+    autoQuality,
+    audioTracks,
+    textTracks,
+    subtitleSelection,
+    sideloadedLabel,
+    togglePlay,
+    seek,
+    goToLive,
+    updateSettings,
+    toggleMute,
+    selectVideoTrack,
+    selectTextTrack,
+    sources,
+    activeSourceIndex,
+    selectSource,
+  } = player;
+  const sourceLabels = sources.map(formatSourceLabel);
+
+  const handleSelectAudioTrack = (track: AudioTrack) => {
+    player.selectAudioTrack(track.id);
+    setPreferredAudioLanguage(track.language);
+  };
+
+  const handleSideloadSubtitles = async (input: string | File) => {
+    try {
+      const count = await player.sideloadSubtitles(input);
+      toast.success(`Loaded ${count} subtitle cues`);
+    } catch (error) {
+      console.error('Subtitle loading error:', error);
+      toast.error(error instanceof Error ? error.message : "Failed to load subtitles");
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 via-black/70 to-transparent p-6 transition-all duration-300",
+        visible ? "opacity-100" : "opacity-0 pointer-events-none"
+      )}
+    >
+      <div className="mb-4">
+        {isLive ? (
+          <>
+            <Slider
+              value={[currentTime]}
+              min={seekableRange?.start ?? 0}
+              max={seekableRange?.end ?? 0}
+              step={0.1}
+              onValueChange={(value) => seek(value[0])}
+              disabled={!seekableRange}
+              className="cursor-pointer"
+            />
+            <div className="flex justify-between text-xs text-foreground/70 mt-1">
+              <span>{seekableRange ? `-${formatTime(seekableRange.end - seekableRange.start)}` : ""}</span>
+              <span>{isAtLiveEdge ? "Live" : `-${formatTime(behindLive)} behind live`}</span>
+            </div>
+          </>
+        ) : (
+          <>
+            <Slider
+              value={[currentTime]}
+              max={duration || 100}
+              step={0.1}
+              onValueChange={(value) => seek(value[0])}
+              className="cursor-pointer"
+            />
+            <div className="flex justify-between text-xs text-foreground/70 mt-1">
+              <span>{formatTime(currentTime)}</span>
+              <span>{formatTime(duration)}</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={togglePlay}
+            className="hover:bg-primary/20"
+          >
+            {isPlaying ? (
+              <Pause className="w-5 h-5" />
+            ) : (
+              <Play className="w-5 h-5 fill-current" />
+            )}
+          </Button>
+
+          <div className="flex items-center gap-2">
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={toggleMute}
+              className="hover:bg-primary/20"
+            >
+              {settings.muted || settings.volume === 0 ? (
+                <VolumeX className="w-5 h-5" />
+              ) : (
+                <Volume2 className="w-5 h-5" />
+              )}
+            </Button>
+            <div className="w-24">
+              <Slider
+                value={[settings.volume]}
+                max={100}
+                step={1}
+                onValueChange={(value) => updateSettings({ volume: value[0], muted: value[0] === 0 })}
+                className="cursor-pointer"
+              />
+            </div>
+          </div>
+
+          {isLive && (
+            <button
+              type="button"
+              onClick={goToLive}
+              disabled={isAtLiveEdge}
+              title={isAtLiveEdge ? "Watching live" : "Jump to live"}
+              className="inline-flex items-center gap-1.5 rounded px-2 py-1 text-xs font-semibold tracking-wide text-white transition-colors hover:bg-primary/20 disabled:cursor-default disabled:hover:bg-transparent"
+            >
+              <span
+                className={cn(
+                  "h-2 w-2 rounded-full",
+                  isAtLiveEdge ? "bg-red-500 animate-pulse" : "bg-gray-400"
+                )}
+              />
+              LIVE
+            </button>
+          )}
+
+          {isLive && latency !== null && (
+            <span
+              className="text-xs text-foreground/70 tabular-nums"
+              title={isLowLatency ? "Low-latency mode" : "Current latency"}
+            >
+              {isLowLatency && <span className="mr-1 font-semibold text-primary">LL</span>}
+              {latency.toFixed(1)}s
+            </span>
+          )}
+
+          {sourceLabels.length > 1 && (
+            <span
+              className="rounded border border-white/20 px-1.5 py-0.5 text-xs text-foreground/70"
+              title="Active source"
+            >
+              {sourceLabels[activeSourceIndex]}
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <CaptionsMenu
+            tracks={textTracks}
+            sideloadedLabel={sideloadedLabel}
+            selectedId={subtitleSelection}
+            onSelect={selectTextTrack}
+            onSideload={handleSideloadSubtitles}
+            container={container}
+          />
+          <PlayerSettingsMenu
+            videoTracks={videoTracks}
+            autoQuality={autoQuality}
+            onSelectVideoTrack={selectVideoTrack}
+            audioTracks={audioTracks}
+            onSelectAudioTrack={handleSelectAudioTrack}
+            playbackRate={settings.playbackRate}
+            onPlaybackRateChange={(playbackRate) => updateSettings({ playbackRate })}
+            sourceLabels={sourceLabels}
+            activeSourceIndex={activeSourceIndex}
+            onSelectSource={selectSource}
+            container={container}
+          />
+          {onToggleFullscreen && (
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={onToggleFullscreen}
+              className="hover:bg-primary/20"
+            >
+              <Maximize className="w-5 h-5" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
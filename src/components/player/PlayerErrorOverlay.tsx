@@ -0,0 +1,62 @@
+import { AlertCircle, ClipboardCopy, RotateCcw } from "lucide-react";
+import type { PlayerError, PlayerErrorCategory } from "@/lib/player/errors";
+import { toast } from "sonner";
+
+const TITLES: Record<PlayerErrorCategory, string> = {
+  network: "Network Error",
+  manifest: "Invalid Stream",
+  media: "Playback Error",
+  drm: "Protected Content",
+  autoplay: "Autoplay Blocked",
+  cors: "Access Blocked",
+  timeout: "Stream Timed Out",
+  unknown: "Stream Error",
+};
+
+interface PlayerErrorOverlayProps {
+  error: PlayerError;
+  onRetry: () => void;
+  getDiagnostics: () => string | null;
+}
+
+export const PlayerErrorOverlay = ({ error, onRetry, getDiagnostics }: PlayerErrorOverlayProps) => {
+  const details = [error.code && `Code ${error.code}`, error.status && `HTTP ${error.status}`].filter(Boolean);
+
+  const copyDiagnostics = async () => {
+    const report = getDiagnostics();
+    if (!report) return;
+    try {
+      await navigator.clipboard.writeText(report);
+      toast.success("Diagnostics copied to clipboard");
+    } catch (copyError) {
+      console.error("Clipboard write failed:", copyError);
+      toast.error("Could not copy diagnostics");
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-10 bg-black flex items-center justify-center">
+      <div className="max-w-md text-center text-white p-6">
+        <AlertCircle className="w-12 h-12 mx-auto mb-3 text-red-400" />
+        <div className="text-lg font-medium mb-2">{TITLES[error.category]}</div>
+        <div className="text-sm text-gray-300 mb-1">{error.message}</div>
+        <div className="text-xs text-gray-400 mb-2">{error.suggestion}</div>
+        {details.length > 0 && <div className="text-xs text-gray-500 mb-4 font-mono">{details.join(" · ")}</div>}
+        <div className="flex items-center justify-center gap-2 mt-4">
+          <button
+            onClick={onRetry}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm rounded transition-colors"
+          >
+            <RotateCcw size={14} /> Retry
+          </button>
+          <button
+            onClick={copyDiagnostics}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white text-sm rounded transition-colors"
+          >
+            <ClipboardCopy size={14} /> Copy diagnostics
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
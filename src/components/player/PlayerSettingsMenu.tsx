@@ -0,0 +1,179 @@
+import { Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { formatChannels, formatLanguage } from "@/lib/player/audio-tracks";
+import type { AudioTrack, VideoTrack } from "@/lib/player/types";
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+interface PlayerSettingsMenuProps {
+  videoTracks: VideoTrack[];
+  autoQuality: boolean;
+  onSelectVideoTrack: (id: string | "auto") => void;
+  audioTracks: AudioTrack[];
+  onSelectAudioTrack: (track: AudioTrack) => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  /** Labels of the primary URL and its alternates; the menu is hidden for a single source. */
+  sourceLabels?: string[];
+  activeSourceIndex?: number;
+  onSelectSource?: (index: number) => void;
+  container?: HTMLElement | null;
+}
+
+const formatBitrate = (bitrate?: number) => {
+  if (!bitrate) return null;
+  return bitrate >= 1_000_000 ? `${(bitrate / 1_000_000).toFixed(1)} Mbps` : `${Math.round(bitrate / 1000)} kbps`;
+};
+
+const formatTrackLabel = (track: VideoTrack) => {
+  const resolution = track.height ? `${track.height}p` : null;
+  return resolution ?? formatBitrate(track.bitrate) ?? `Track ${track.id}`;
+};
+
+const formatAudioTrackLabel = (track: AudioTrack) => track.label || formatLanguage(track.language);
+
+const formatAudioTrackDetails = (track: AudioTrack) =>
+  [track.role, formatChannels(track.channels)].filter(Boolean).join(" · ");
+
+export const PlayerSettingsMenu = ({
+  videoTracks,
+  autoQuality,
+  onSelectVideoTrack,
+  audioTracks,
+  onSelectAudioTrack,
+  playbackRate,
+  onPlaybackRateChange,
+  sourceLabels = [],
+  activeSourceIndex = 0,
+  onSelectSource,
+  container,
+}: PlayerSettingsMenuProps) => {
+  const sortedTracks = [...videoTracks].sort(
+    (a, b) => (b.height ?? 0) - (a.height ?? 0) || (b.bitrate ?? 0) - (a.bitrate ?? 0)
+  );
+  const activeTrack = videoTracks.find((track) => track.active);
+  const qualityValue = autoQuality ? "auto" : activeTrack?.id ?? "auto";
+  const autoLabel = autoQuality && activeTrack ? `Auto (${formatTrackLabel(activeTrack)})` : "Auto";
+  const currentQualityLabel = autoQuality ? autoLabel : activeTrack ? formatTrackLabel(activeTrack) : "Auto";
+  const activeAudioTrack = audioTracks.find((track) => track.active);
+
+  return (
+    <DropdownMenu modal={false}>
+      <DropdownMenuTrigger asChild>
+        <Button size="icon" variant="ghost" className="hover:bg-primary/20" aria-label="Settings">
+          <Settings className="w-5 h-5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent container={container} align="end" side="top" className="w-56">
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger disabled={sortedTracks.length === 0}>
+            <span>Quality</span>
+            <span className="ml-auto pl-2 text-xs text-muted-foreground">{currentQualityLabel}</span>
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+            <DropdownMenuRadioGroup value={qualityValue} onValueChange={onSelectVideoTrack}>
+              <DropdownMenuRadioItem value="auto">{autoLabel}</DropdownMenuRadioItem>
+              <DropdownMenuSeparator />
+              {sortedTracks.map((track) => (
+                <DropdownMenuRadioItem key={track.id} value={track.id}>
+                  <span>{formatTrackLabel(track)}</span>
+                  {track.height && track.bitrate ? (
+                    <span className="ml-auto pl-3 text-xs text-muted-foreground">
+                      {formatBitrate(track.bitrate)}
+                    </span>
+                  ) : null}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+
+        {audioTracks.length > 1 && (
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <span>Audio</span>
+              <span className="ml-auto pl-2 text-xs text-muted-foreground truncate">
+                {activeAudioTrack ? formatAudioTrackLabel(activeAudioTrack) : ""}
+              </span>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+              <DropdownMenuRadioGroup
+                value={activeAudioTrack?.id ?? ""}
+                onValueChange={(id) => {
+                  const track = audioTracks.find((candidate) => candidate.id === id);
+                  if (track) onSelectAudioTrack(track);
+                }}
+              >
+                {audioTracks.map((track) => (
+                  <DropdownMenuRadioItem key={track.id} value={track.id}>
+                    <span>{formatAudioTrackLabel(track)}</span>
+                    <span className="ml-auto pl-3 text-xs capitalize text-muted-foreground">
+                      {formatAudioTrackDetails(track)}
+                    </span>
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        )}
+
+        {sourceLabels.length > 1 && (
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <span>Source</span>
+              <span className="ml-auto pl-2 text-xs text-muted-foreground truncate">
+                {sourceLabels[activeSourceIndex]}
+              </span>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+              <DropdownMenuRadioGroup
+                value={String(activeSourceIndex)}
+                onValueChange={(value) => onSelectSource?.(Number(value))}
+              >
+                {sourceLabels.map((label, index) => (
+                  <DropdownMenuRadioItem key={index} value={String(index)}>
+                    {label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        )}
+
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <span>Speed</span>
+            <span className="ml-auto pl-2 text-xs text-muted-foreground">
+              {playbackRate === 1 ? "Normal" : `${playbackRate}x`}
+            </span>
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            <DropdownMenuLabel>Playback speed</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={String(playbackRate)}
+              onValueChange={(value) => onPlaybackRateChange(Number(value))}
+            >
+              {PLAYBACK_RATES.map((rate) => (
+                <DropdownMenuRadioItem key={rate} value={String(rate)}>
+                  {rate === 1 ? "Normal" : `${rate}x`}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,43 @@
+import * as React from "react";
+import type { EpgGuide } from "@/lib/iptv/xmltv";
+
+type State = {
+  guide: EpgGuide | null;
+};
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = { guide: null };
+
+function setState(update: Partial<State>) {
+  memoryState = { ...memoryState, ...update };
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+function setGuide(guide: EpgGuide | null) {
+  setState({ guide });
+}
+
+/** The loaded program guide, shared between pages. */
+function useIptv() {
+  const [state, setLocalState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setLocalState);
+    return () => {
+      const index = listeners.indexOf(setLocalState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return {
+    ...state,
+    setGuide,
+  };
+}
+
+export { useIptv, setGuide };
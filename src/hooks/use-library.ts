@@ -0,0 +1,71 @@
+import { useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import * as library from "@/lib/library/repository";
+import { toast } from "sonner";
+
+export const libraryKeys = {
+  all: ["library"] as const,
+  channels: () => [...libraryKeys.all, "channels"] as const,
+  playlists: () => [...libraryKeys.all, "playlists"] as const,
+  groups: () => [...libraryKeys.all, "groups"] as const,
+  recents: () => [...libraryKeys.all, "recents"] as const,
+  stream: (id: string) => [...libraryKeys.all, "stream", id] as const,
+};
+
+export const useChannels = () => useQuery({ queryKey: libraryKeys.channels(), queryFn: library.listChannels });
+
+export const usePlaylists = () => useQuery({ queryKey: libraryKeys.playlists(), queryFn: library.listPlaylists });
+
+export const useGroups = () => useQuery({ queryKey: libraryKeys.groups(), queryFn: library.listGroups });
+
+export const useRecents = () => useQuery({ queryKey: libraryKeys.recents(), queryFn: () => library.listRecents() });
+
+export const useLibraryStream = (id: string | undefined) =>
+  useQuery({
+    queryKey: libraryKeys.stream(id ?? ""),
+    queryFn: () => library.findStream(id),
+    enabled: !!id,
+  });
+
+/**
+ * Library writes. Each one invalidates the whole library, since most touch
+ * more than one store (removing a channel also edits groups). Failures are
+ * reported with a toast and resolve to `undefined`.
+ */
+export function useLibraryActions() {
+  const queryClient = useQueryClient();
+
+  return useMemo(() => {
+    const wrap =
+      <Args extends unknown[], Result>(action: (...args: Args) => Promise<Result>) =>
+      async (...args: Args): Promise<Result | undefined> => {
+        try {
+          return await action(...args);
+        } catch (error) {
+          console.error("Library update failed:", error);
+          toast.error(error instanceof Error ? error.message : "Failed to update the library");
+          return undefined;
+        } finally {
+          queryClient.invalidateQueries({ queryKey: libraryKeys.all });
+        }
+      };
+
+    return {
+      addChannel: wrap(library.addChannel),
+      removeChannel: wrap(library.removeChannel),
+      setFavorite: wrap(library.setFavorite),
+      reorderChannels: wrap(library.reorderChannels),
+      savePlaylist: wrap(library.savePlaylist),
+      removePlaylist: wrap(library.removePlaylist),
+      createGroup: wrap(library.createGroup),
+      renameGroup: wrap(library.renameGroup),
+      deleteGroup: wrap(library.deleteGroup),
+      setGroupMembership: wrap(library.setGroupMembership),
+      reorderGroupChannels: wrap(library.reorderGroupChannels),
+      reorderGroups: wrap(library.reorderGroups),
+      recordWatch: wrap(library.recordWatch),
+      clearRecents: wrap(library.clearRecents),
+      clearLibrary: wrap(library.clearLibrary),
+    };
+  }, [queryClient]);
+}
@@ -0,0 +1,781 @@
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState, type RefObject } from "react";
+import { detectStreamType } from "@/lib/player/detect-stream-type";
+import { PlayerError, formatDiagnostics, toPlayerError } from "@/lib/player/errors";
+import { watchIcyMetadata } from "@/lib/player/icy";
+import { parseStreamUrl } from "@/lib/player/stream-descriptor";
+import { applyMediaSettings, applyVolumeSettings, type MediaSettings } from "@/lib/player/media";
+import {
+  getRetryDelay,
+  isOffline,
+  resolveRecoveryPolicy,
+  shouldRetry,
+  type RecoveryPolicy,
+} from "@/lib/player/recovery";
+import { getPreferredAudioLanguage, getWorkingSource, setWorkingSource } from "@/lib/player/preferences";
+import { acquireCueTrack, clearCueTrack, loadSubtitles, replaceCues } from "@/lib/player/subtitles";
+import { watchTimedMetadata } from "@/lib/player/timed-metadata";
+import type {
+  AudioTrack,
+  NowPlaying,
+  PlaybackEngine,
+  PlaybackStats,
+  SeekableRange,
+  StreamDescriptor,
+  StreamFormat,
+  SubtitleTrack,
+  VideoTrack,
+} from "@/lib/player/types";
+import type { StreamAlternate, StreamType } from "@/lib/iptv/types";
+import {
+  initialPlaybackState,
+  isLoadingStatus,
+  isPlayingStatus,
+  playbackReducer,
+  type PlaybackStatus,
+} from "@/lib/player/playback-state";
+
+/** Selection id for subtitles loaded from a file or URL rather than the stream. */
+export const SIDELOADED_SUBTITLE_ID = "sideloaded";
+
+export interface StreamPlayerSource {
+  src: string;
+  type?: StreamType;
+  /** Prefer low-latency live playback (LL-HLS / LL-DASH with catch-up). */
+  lowLatency?: boolean;
+  /** Tried in order when `src` fails. The one that last played is tried first next time. */
+  alternates?: StreamAlternate[];
+}
+
+export const formatSourceLabel = (source: StreamAlternate, index: number) =>
+  source.label ?? (index === 0 ? "Primary" : `Backup ${index}`);
+
+export interface PlayerTimeUpdate {
+  currentTime: number;
+  duration: number;
+  isLive: boolean;
+}
+
+export interface StreamPlayerOptions {
+  /** Start playback as soon as the stream loads. Defaults to true. */
+  autoPlay?: boolean;
+  muted?: boolean;
+  /** Position in seconds to start VOD playback from; ignored for live streams. */
+  startTime?: number;
+  /** Overrides for the retry policy applied to recoverable fatal errors. */
+  recovery?: Partial<RecoveryPolicy>;
+  onStateChange?: (status: PlaybackStatus, error: PlayerError | null) => void;
+  /** Fatal errors, plus non-fatal ones the host may want to act on, such as blocked autoplay. */
+  onError?: (error: PlayerError) => void;
+  onTimeUpdate?: (update: PlayerTimeUpdate) => void;
+  /** Fires when the active rendition or the auto/manual quality mode changes. */
+  onQualityChange?: (track: VideoTrack | null, auto: boolean) => void;
+  onEnded?: () => void;
+}
+
+export interface StreamPlayerController {
+  status: PlaybackStatus;
+  error: PlayerError | null;
+  /** The stream currently attached, after any `load()` override. */
+  source: StreamPlayerSource | null;
+  /** The primary URL followed by its alternates. */
+  sources: StreamAlternate[];
+  activeSourceIndex: number;
+  isPlaying: boolean;
+  isLoading: boolean;
+  /** The retry in progress after a fatal error, or 0. */
+  reconnectAttempt: number;
+  /** A retry is on hold until the browser reports it is back online. */
+  waitingForNetwork: boolean;
+  currentTime: number;
+  duration: number;
+  isLive: boolean;
+  seekableRange: SeekableRange | null;
+  liveEdge: number | null;
+  /** Seconds behind the live edge; 0 for VOD. */
+  behindLive: number;
+  isAtLiveEdge: boolean;
+  latency: number | null;
+  isLowLatency: boolean;
+  settings: MediaSettings;
+  videoTracks: VideoTrack[];
+  activeVideoTrack: VideoTrack | null;
+  autoQuality: boolean;
+  audioTracks: AudioTrack[];
+  textTracks: SubtitleTrack[];
+  /** A text track id, `SIDELOADED_SUBTITLE_ID` or null when subtitles are off. */
+  subtitleSelection: string | null;
+  /** The track whose cues should be rendered, whichever source they come from. */
+  cueTrack: TextTrack | null;
+  sideloadedLabel: string | null;
+  /** The stream has sound but no picture, e.g. internet radio or an audio-only HLS rendition. */
+  isAudioOnly: boolean;
+  /** Track info from ICY `StreamTitle` or ID3 timed metadata, when the stream sends any. */
+  nowPlaying: NowPlaying | null;
+
+  play: () => Promise<void>;
+  pause: () => void;
+  togglePlay: () => void;
+  seek: (time: number) => void;
+  goToLive: () => void;
+  updateSettings: (patch: Partial<MediaSettings>) => void;
+  toggleMute: () => void;
+  selectVideoTrack: (id: string | "auto") => void;
+  selectAudioTrack: (id: string) => void;
+  /** `null` turns subtitles off. */
+  selectTextTrack: (id: string | null) => void;
+  /** Loads external subtitles and selects them. Resolves to the number of cues. */
+  sideloadSubtitles: (input: string | File) => Promise<number>;
+  /** Switches to another entry of `sources`, keeping the position for VOD. */
+  selectSource: (index: number) => void;
+  /** Plays another stream; it replaces `descriptor` until that argument changes. */
+  load: (source: StreamPlayerSource) => void;
+  retry: () => void;
+  getStats: () => PlaybackStats | null;
+  /** A plain-text report of the current error for bug reports, or null when there is none. */
+  getDiagnostics: () => string | null;
+}
+
+const PLAYER_LOAD_TIMEOUT = 15000;
+
+const FORMAT_BY_TYPE: Record<StreamType, StreamFormat> = {
+  hls: "hls",
+  dash: "dash",
+  mp4: "native",
+  audio: "native",
+  ts: "mpegts",
+  flv: "flv",
+  webrtc: "webrtc",
+};
+
+const getPreferredSourceIndex = (sources: StreamAlternate[]) => {
+  if (sources.length < 2) return 0;
+  const working = getWorkingSource(sources[0].src);
+  return Math.max(0, sources.findIndex((source) => source.src === working));
+};
+// How far behind the live edge (in seconds) still counts as watching live.
+const LIVE_EDGE_TOLERANCE = 5;
+
+/**
+ * Headless player: attaches the right playback engine to `videoRef` for
+ * `descriptor`, tracks its state and exposes the actions a skin needs.
+ * Rendering, layout and input handling are left to the caller.
+ */
+export function useStreamPlayer(
+  videoRef: RefObject<HTMLVideoElement>,
+  descriptor: StreamPlayerSource | null | undefined,
+  options: StreamPlayerOptions = {}
+): StreamPlayerController {
+  const { autoPlay = true, muted, startTime } = options;
+  const engineRef = useRef<PlaybackEngine | null>(null);
+  const loadIdRef = useRef(0);
+  const isMountedRef = useRef(true);
+  const loadingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const retryAttemptRef = useRef(0);
+  // VOD position to restore when a retry reloads the stream.
+  const resumeAtRef = useRef<number | null>(null);
+  const initializeRef = useRef<() => void>(() => {});
+  const sourceIndexRef = useRef(0);
+  const failedSourcesRef = useRef(new Set<number>());
+  const subtitleSelectionRef = useRef<string | null>(null);
+  const sideloadTrackRef = useRef<TextTrack | null>(null);
+  const activeDescriptorRef = useRef<StreamDescriptor | null>(null);
+  const stopTimedMetadataRef = useRef<(() => void) | null>(null);
+
+  const [playback, dispatch] = useReducer(playbackReducer, initialPlaybackState);
+  const [settings, setSettings] = useState<MediaSettings>({ volume: 75, muted: !!muted, playbackRate: 1 });
+  const settingsRef = useRef(settings);
+  // Read at load time, so changing them never reloads the stream.
+  const startOptionsRef = useRef({ autoPlay, startTime });
+  startOptionsRef.current = { autoPlay, startTime };
+  const callbacksRef = useRef(options);
+  callbacksRef.current = options;
+  const recoveryRef = useRef(resolveRecoveryPolicy(options.recovery));
+  recoveryRef.current = resolveRecoveryPolicy(options.recovery);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [waitingForNetwork, setWaitingForNetwork] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [isLive, setIsLive] = useState(false);
+  const [seekableRange, setSeekableRange] = useState<SeekableRange | null>(null);
+  const [liveEdge, setLiveEdge] = useState<number | null>(null);
+  const [latency, setLatency] = useState<number | null>(null);
+  const [isLowLatency, setIsLowLatency] = useState(false);
+  const [videoTracks, setVideoTracks] = useState<VideoTrack[]>([]);
+  const [autoQuality, setAutoQuality] = useState(true);
+  const [audioTracks, setAudioTracks] = useState<AudioTrack[]>([]);
+  const [textTracks, setTextTracks] = useState<SubtitleTrack[]>([]);
+  const [subtitleSelection, setSubtitleSelection] = useState<string | null>(null);
+  const [cueTrack, setCueTrack] = useState<TextTrack | null>(null);
+  const [sideloadedLabel, setSideloadedLabel] = useState<string | null>(null);
+  const [isAudioOnly, setIsAudioOnly] = useState(false);
+  const [nowPlaying, setNowPlaying] = useState<NowPlaying | null>(null);
+  const [loadedSource, setLoadedSource] = useState<StreamPlayerSource | null>(null);
+  const [sourceIndex, setSourceIndex] = useState(0);
+
+  const activeSource = loadedSource ?? descriptor;
+  const lowLatency = activeSource?.lowLatency;
+  // Serialised so that an equal but new `alternates` array does not reload the stream.
+  // An undefined `type` is dropped, leaving the primary to detection.
+  const sourcesKey = JSON.stringify(
+    activeSource?.src ? [{ src: activeSource.src, type: activeSource.type }, ...(activeSource.alternates ?? [])] : []
+  );
+  const sources = useMemo<StreamAlternate[]>(() => JSON.parse(sourcesKey), [sourcesKey]);
+  const sourcesRef = useRef(sources);
+  sourcesRef.current = sources;
+  const activeVideoTrack = videoTracks.find((track) => track.active) ?? null;
+  const behindLive = isLive && liveEdge !== null ? Math.max(0, liveEdge - currentTime) : 0;
+
+  const destroyPlayer = useCallback(() => {
+    loadIdRef.current++;
+    if (engineRef.current) {
+      engineRef.current.destroy().catch(console.warn);
+      engineRef.current = null;
+    }
+    if (stopTimedMetadataRef.current) {
+      stopTimedMetadataRef.current();
+      stopTimedMetadataRef.current = null;
+    }
+    if (loadingTimeoutRef.current) {
+      clearTimeout(loadingTimeoutRef.current);
+      loadingTimeoutRef.current = null;
+    }
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current);
+      retryTimeoutRef.current = null;
+    }
+  }, []);
+
+  const selectSourceIndex = useCallback((index: number) => {
+    sourceIndexRef.current = index;
+    setSourceIndex(index);
+  }, []);
+
+  const rememberPosition = useCallback(() => {
+    const engine = engineRef.current;
+    const video = videoRef.current;
+    if (engine && video && !engine.isLive() && video.currentTime > 0) {
+      resumeAtRef.current = video.currentTime;
+    }
+  }, [videoRef]);
+
+  // Tears the engine down, then fails over to the next untried alternate or
+  // schedules a reload under the recovery policy. Once the policy gives up,
+  // the error is surfaced.
+  const handleFatalError = useCallback(
+    (error: PlayerError) => {
+      rememberPosition();
+      destroyPlayer();
+
+      if (isOffline() && error.recoverable) {
+        console.warn('Offline, waiting for the network to return before retrying');
+        dispatch({ type: 'RECONNECT', error });
+        setWaitingForNetwork(true);
+        return;
+      }
+
+      const candidates = sourcesRef.current;
+      failedSourcesRef.current.add(sourceIndexRef.current);
+      const next = candidates.findIndex((_, index) => !failedSourcesRef.current.has(index));
+      if (next !== -1) {
+        const failed = formatSourceLabel(candidates[sourceIndexRef.current], sourceIndexRef.current);
+        console.warn(`${failed} source failed, switching to ${formatSourceLabel(candidates[next], next)}`);
+        selectSourceIndex(next);
+        dispatch({ type: 'RECONNECT', error });
+        retryTimeoutRef.current = setTimeout(() => initializeRef.current(), 0);
+        return;
+      }
+
+      // Every source failed: start the next round from the preferred one.
+      failedSourcesRef.current.clear();
+      selectSourceIndex(getPreferredSourceIndex(candidates));
+
+      const policy = recoveryRef.current;
+      const attempt = retryAttemptRef.current + 1;
+      if (!shouldRetry(error, attempt, policy)) {
+        dispatch({ type: 'ERROR', error });
+        return;
+      }
+
+      dispatch({ type: 'RECONNECT', error });
+      retryAttemptRef.current = attempt;
+      setReconnectAttempt(attempt);
+      const delay = getRetryDelay(attempt, policy);
+      console.log(`Retrying in ${delay}ms (attempt ${attempt}/${policy.maxRetries})`);
+      retryTimeoutRef.current = setTimeout(() => initializeRef.current(), delay);
+    },
+    [rememberPosition, destroyPlayer, selectSourceIndex]
+  );
+
+  const initializePlayer = useCallback(async () => {
+    const source = sources[sourceIndexRef.current] ?? sources[0];
+    if (!source || !videoRef.current) {
+      dispatch({ type: 'ERROR', error: new PlayerError("unknown", "No stream URL provided", { recoverable: false }) });
+      return;
+    }
+
+    const video = videoRef.current;
+    destroyPlayer();
+    const loadId = loadIdRef.current;
+    const isCurrent = () => isMountedRef.current && loadIdRef.current === loadId;
+
+    dispatch({ type: 'LOAD' });
+    setWaitingForNetwork(false);
+    setVideoTracks([]);
+    setAutoQuality(true);
+    setAudioTracks([]);
+    setIsLive(false);
+    setSeekableRange(null);
+    setLiveEdge(null);
+    setLatency(null);
+    setIsLowLatency(false);
+    setTextTracks([]);
+    setSubtitleSelection(null);
+    setCueTrack(null);
+    setSideloadedLabel(null);
+    setIsAudioOnly(false);
+    setNowPlaying(null);
+    subtitleSelectionRef.current = null;
+    if (sideloadTrackRef.current) {
+      clearCueTrack(sideloadTrackRef.current);
+      sideloadTrackRef.current = null;
+    }
+
+    loadingTimeoutRef.current = setTimeout(() => {
+      if (isCurrent()) {
+        handleFatalError(
+          new PlayerError("timeout", "Stream took too long to load", { code: "PLAYER_LOAD_TIMEOUT", url: source.src })
+        );
+      }
+    }, PLAYER_LOAD_TIMEOUT);
+
+    try {
+      const descriptor = parseStreamUrl(source.src);
+      if (source.type && !descriptor.hints.format) {
+        descriptor.hints.format = FORMAT_BY_TYPE[source.type];
+      }
+      if (lowLatency !== undefined && descriptor.hints.lowLatency === undefined) {
+        descriptor.hints.lowLatency = lowLatency;
+      }
+      setIsLowLatency(!!descriptor.hints.lowLatency);
+      const { format, engine: definition, container } = await detectStreamType(descriptor, video);
+      if (!isCurrent()) return;
+      console.log('Detected stream type:', format, container ? `(probed: ${container})` : '(guessed)', 'URL:', descriptor.url);
+
+      if (!definition) {
+        throw new PlayerError("media", `${format.toUpperCase()} is not supported in this browser`, {
+          recoverable: false,
+          suggestion: "Try a different browser, or a version of the stream in another format.",
+        });
+      }
+
+      const engine = await definition.create(video);
+      if (!isCurrent()) {
+        await engine.destroy();
+        return;
+      }
+      engineRef.current = engine;
+      activeDescriptorRef.current = descriptor;
+      dispatch({ type: 'RESOLVED' });
+      stopTimedMetadataRef.current = watchTimedMetadata(video, (update) => {
+        if (isCurrent()) setNowPlaying(update);
+      });
+
+      engine.on('tracksChanged', (tracks) => {
+        if (!isCurrent()) return;
+        setVideoTracks(tracks);
+        setAutoQuality(engine.isAutoQuality());
+      });
+
+      engine.on('audioTracksChanged', (tracks) => {
+        if (isCurrent()) setAudioTracks(tracks);
+      });
+
+      engine.on('textTracksChanged', (tracks) => {
+        if (!isCurrent()) return;
+        setTextTracks(tracks);
+        if (subtitleSelectionRef.current && subtitleSelectionRef.current !== SIDELOADED_SUBTITLE_ID) {
+          setCueTrack(engine.getCueTrack());
+        }
+      });
+
+      engine.on('error', ({ error, fatal }) => {
+        if (!isCurrent()) return;
+        if (!fatal) {
+          console.warn('Recoverable playback error:', error);
+          return;
+        }
+        handleFatalError(error);
+      });
+
+      await engine.load(
+        { ...descriptor, format },
+        { preferredAudioLanguage: getPreferredAudioLanguage(), recovery: recoveryRef.current }
+      );
+      if (!isCurrent()) return;
+
+      if (loadingTimeoutRef.current) {
+        clearTimeout(loadingTimeoutRef.current);
+        loadingTimeoutRef.current = null;
+      }
+
+      dispatch({ type: 'LOADED' });
+      if (sources.length > 1) {
+        setWorkingSource(sources[0].src, source.src);
+      }
+      applyMediaSettings(video, settingsRef.current);
+      // A retry picks up where playback failed and keeps playing.
+      const resumeAt = resumeAtRef.current;
+      resumeAtRef.current = null;
+      const startAt = resumeAt ?? startOptionsRef.current.startTime;
+      const shouldPlay = resumeAt !== null || startOptionsRef.current.autoPlay;
+      if (startAt && startAt > 0 && !engine.isLive()) {
+        video.currentTime = startAt;
+      }
+      if (shouldPlay) {
+        video.play().catch((error) => {
+          console.warn(error);
+          const playError = toPlayerError(error);
+          if (isCurrent() && playError.category === "autoplay") {
+            callbacksRef.current.onError?.(playError);
+          }
+        });
+      }
+      console.log(`Stream loaded successfully with ${engine.name}`);
+    } catch (error) {
+      if (!isCurrent()) return;
+      console.error('Player initialization error:', error);
+      handleFatalError(toPlayerError(error));
+    }
+  }, [sources, lowLatency, videoRef, destroyPlayer, handleFatalError]);
+  initializeRef.current = initializePlayer;
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    retryAttemptRef.current = 0;
+    resumeAtRef.current = null;
+    setReconnectAttempt(0);
+    failedSourcesRef.current.clear();
+    selectSourceIndex(getPreferredSourceIndex(sourcesRef.current));
+    initializePlayer();
+
+    return () => {
+      isMountedRef.current = false;
+      destroyPlayer();
+    };
+  }, [initializePlayer, destroyPlayer, selectSourceIndex]);
+
+  useEffect(() => {
+    if (muted !== undefined) {
+      setSettings((current) => (current.muted === muted ? current : { ...current, muted }));
+    }
+  }, [muted]);
+
+  useEffect(() => {
+    callbacksRef.current.onStateChange?.(playback.status, playback.error);
+    if (playback.status === "error" && playback.error) {
+      callbacksRef.current.onError?.(playback.error);
+    }
+  }, [playback.status, playback.error]);
+
+  // Playing again means the last recovery worked; later failures start over.
+  useEffect(() => {
+    if (playback.status !== "playing") return;
+    failedSourcesRef.current.clear();
+    if (retryAttemptRef.current > 0) {
+      retryAttemptRef.current = 0;
+      setReconnectAttempt(0);
+    }
+  }, [playback.status]);
+
+  // Resume as soon as the network returns, whether a retry was put on hold or
+  // the policy already gave up on a recoverable error.
+  useEffect(() => {
+    const resumable = waitingForNetwork || (playback.status === "error" && playback.error?.recoverable);
+    if (!resumable) return;
+
+    const handleOnline = () => {
+      console.log('Network is back, reconnecting...');
+      retryAttemptRef.current = 0;
+      setReconnectAttempt(0);
+      initializePlayer();
+    };
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [waitingForNetwork, playback.status, playback.error, initializePlayer]);
+
+  // Icecast/Shoutcast servers only send track titles to a client that asks for
+  // them, so direct audio streams are polled for them on the side.
+  useEffect(() => {
+    const descriptor = activeDescriptorRef.current;
+    if (!isAudioOnly || engineRef.current?.name !== "native" || !descriptor) return;
+    // `isAudioOnly` is reset on every load, so a new source also stops the old watcher.
+    return watchIcyMetadata(descriptor, setNowPlaying);
+  }, [isAudioOnly]);
+
+  // A `load()` overrides the descriptor until the descriptor itself changes.
+  useEffect(() => {
+    setLoadedSource(null);
+  }, [descriptor?.src]);
+
+  // Track objects are rebuilt on every engine event, so only report real changes.
+  const reportedQualityRef = useRef<string | null>(null);
+  useEffect(() => {
+    const key = `${activeVideoTrack?.id ?? ""}:${autoQuality}`;
+    if (reportedQualityRef.current === key) return;
+    reportedQualityRef.current = key;
+    callbacksRef.current.onQualityChange?.(activeVideoTrack, autoQuality);
+  }, [activeVideoTrack, autoQuality]);
+
+  // Runtime settings are applied to whatever engine is attached; they never
+  // trigger a reload.
+  useEffect(() => {
+    settingsRef.current = settings;
+    if (videoRef.current) {
+      applyVolumeSettings(videoRef.current, settings);
+    }
+  }, [settings, videoRef]);
+
+  // hls.js and Shaka adjust the rate to catch up with the live edge, so it is
+  // only set when the user picks another one.
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.playbackRate = settings.playbackRate;
+    }
+  }, [settings.playbackRate, videoRef]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const updateLiveWindow = () => {
+      const engine = engineRef.current;
+      const live = !!engine?.isLive();
+      setIsLive(live);
+      setSeekableRange(live ? engine.getSeekableRange() : null);
+      setLiveEdge(live ? engine.getLiveEdge() : null);
+      setLatency(live ? engine.getStats().latency ?? null : null);
+    };
+
+    const handleTimeUpdate = () => {
+      setCurrentTime(video.currentTime);
+      updateLiveWindow();
+      callbacksRef.current.onTimeUpdate?.({
+        currentTime: video.currentTime,
+        duration: video.duration,
+        isLive: !!engineRef.current?.isLive(),
+      });
+    };
+    const handleDurationChange = () => {
+      setDuration(video.duration);
+      updateLiveWindow();
+    };
+    const handlePlay = () => dispatch({ type: "PLAY" });
+    const handlePause = () => dispatch({ type: "PAUSE" });
+    const handleWaiting = () => dispatch({ type: "WAITING" });
+    const handleStalled = () => dispatch({ type: "STALLED" });
+    const handleCanPlay = () => dispatch({ type: "CAN_PLAY", paused: video.paused });
+    const handleSeeking = () => dispatch({ type: "SEEKING", paused: video.paused });
+    const handleEnded = () => {
+      dispatch({ type: "ENDED" });
+      callbacksRef.current.onEnded?.();
+    };
+    // Audio-only media reports no picture size once its metadata is in.
+    const handleDimensions = () => {
+      setIsAudioOnly(video.readyState >= HTMLMediaElement.HAVE_METADATA && video.videoWidth === 0 && video.videoHeight === 0);
+    };
+
+    video.addEventListener("timeupdate", handleTimeUpdate);
+    video.addEventListener("durationchange", handleDurationChange);
+    video.addEventListener("play", handlePlay);
+    video.addEventListener("playing", handlePlay);
+    video.addEventListener("pause", handlePause);
+    video.addEventListener("waiting", handleWaiting);
+    video.addEventListener("stalled", handleStalled);
+    video.addEventListener("canplay", handleCanPlay);
+    video.addEventListener("seeking", handleSeeking);
+    video.addEventListener("ended", handleEnded);
+    video.addEventListener("loadedmetadata", handleDimensions);
+    video.addEventListener("resize", handleDimensions);
+
+    return () => {
+      video.removeEventListener("timeupdate", handleTimeUpdate);
+      video.removeEventListener("durationchange", handleDurationChange);
+      video.removeEventListener("play", handlePlay);
+      video.removeEventListener("playing", handlePlay);
+      video.removeEventListener("pause", handlePause);
+      video.removeEventListener("waiting", handleWaiting);
+      video.removeEventListener("stalled", handleStalled);
+      video.removeEventListener("canplay", handleCanPlay);
+      video.removeEventListener("seeking", handleSeeking);
+      video.removeEventListener("ended", handleEnded);
+      video.removeEventListener("loadedmetadata", handleDimensions);
+      video.removeEventListener("resize", handleDimensions);
+    };
+  }, [videoRef]);
+
+  const play = useCallback(async () => {
+    await videoRef.current?.play();
+  }, [videoRef]);
+
+  const pause = useCallback(() => videoRef.current?.pause(), [videoRef]);
+
+  const togglePlay = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused || video.ended) {
+      video.play().catch(console.warn);
+    } else {
+      video.pause();
+    }
+  }, [videoRef]);
+
+  const seek = useCallback(
+    (time: number) => {
+      const video = videoRef.current;
+      if (!video || !Number.isFinite(time)) return;
+      video.currentTime = time;
+      setCurrentTime(time);
+    },
+    [videoRef]
+  );
+
+  const goToLive = useCallback(() => {
+    const video = videoRef.current;
+    const edge = engineRef.current?.getLiveEdge();
+    if (!video || edge == null) return;
+    video.currentTime = edge;
+    setCurrentTime(edge);
+    if (video.paused) {
+      video.play().catch(console.warn);
+    }
+  }, [videoRef]);
+
+  const updateSettings = useCallback((patch: Partial<MediaSettings>) => {
+    setSettings((current) => ({ ...current, ...patch }));
+  }, []);
+
+  const toggleMute = useCallback(() => {
+    setSettings((current) => ({ ...current, muted: !current.muted }));
+  }, []);
+
+  const selectVideoTrack = useCallback((id: string | "auto") => {
+    engineRef.current?.selectVideoTrack(id);
+  }, []);
+
+  const selectAudioTrack = useCallback((id: string) => {
+    engineRef.current?.selectAudioTrack(id);
+  }, []);
+
+  const selectTextTrack = useCallback((id: string | null) => {
+    const engine = engineRef.current;
+    const sideloadTrack = sideloadTrackRef.current;
+    subtitleSelectionRef.current = id;
+    setSubtitleSelection(id);
+
+    if (id === SIDELOADED_SUBTITLE_ID && sideloadTrack) {
+      engine?.selectTextTrack(null);
+      sideloadTrack.mode = "hidden";
+      setCueTrack(sideloadTrack);
+      return;
+    }
+
+    if (sideloadTrack) {
+      sideloadTrack.mode = "disabled";
+    }
+    engine?.selectTextTrack(id);
+    setCueTrack(engine?.getCueTrack() ?? null);
+  }, []);
+
+  const sideloadSubtitles = useCallback(
+    async (input: string | File) => {
+      const video = videoRef.current;
+      if (!video) return 0;
+
+      const cues = await loadSubtitles(input);
+      const track = acquireCueTrack(video, "sideloaded", "External subtitles");
+      replaceCues(track, cues);
+      sideloadTrackRef.current = track;
+      setSideloadedLabel(typeof input === "string" ? input.split("/").pop()?.split("?")[0] || input : input.name);
+      selectTextTrack(SIDELOADED_SUBTITLE_ID);
+      return cues.length;
+    },
+    [videoRef, selectTextTrack]
+  );
+
+  const selectSource = useCallback(
+    (index: number) => {
+      if (!sourcesRef.current[index]) return;
+      rememberPosition();
+      failedSourcesRef.current.clear();
+      retryAttemptRef.current = 0;
+      setReconnectAttempt(0);
+      selectSourceIndex(index);
+      initializeRef.current();
+    },
+    [rememberPosition, selectSourceIndex]
+  );
+
+  const load = useCallback((source: StreamPlayerSource) => setLoadedSource({ ...source }), []);
+
+  const retry = useCallback(() => {
+    retryAttemptRef.current = 0;
+    setReconnectAttempt(0);
+    initializePlayer();
+  }, [initializePlayer]);
+
+  const getStats = useCallback(() => engineRef.current?.getStats() ?? null, []);
+
+  const getDiagnostics = () =>
+    playback.error
+      ? formatDiagnostics(playback.error, { src: sources[sourceIndex]?.src, status: playback.status })
+      : null;
+
+  return {
+    status: playback.status,
+    error: playback.error,
+    source: activeSource ?? null,
+    sources,
+    activeSourceIndex: sourceIndex,
+    isPlaying: isPlayingStatus(playback.status),
+    isLoading: isLoadingStatus(playback.status),
+    reconnectAttempt,
+    waitingForNetwork,
+    currentTime,
+    duration,
+    isLive,
+    seekableRange,
+    liveEdge,
+    behindLive,
+    isAtLiveEdge: isLive && behindLive < LIVE_EDGE_TOLERANCE,
+    latency,
+    isLowLatency,
+    settings,
+    videoTracks,
+    activeVideoTrack,
+    autoQuality,
+    audioTracks,
+    textTracks,
+    subtitleSelection,
+    cueTrack,
+    sideloadedLabel,
+    isAudioOnly,
+    nowPlaying,
+    play,
+    pause,
+    togglePlay,
+    seek,
+    goToLive,
+    updateSettings,
+    toggleMute,
+    selectVideoTrack,
+    selectAudioTrack,
+    selectTextTrack,
+    sideloadSubtitles,
+    selectSource,
+    load,
+    retry,
+    getStats,
+    getDiagnostics,
+  };
+}
@@ -0,0 +1,162 @@
+import type { PlayerErrorCategory } from "@/lib/player/errors";
+import type { PlaybackStatus } from "@/lib/player/playback-state";
+import type { StreamAlternate, StreamType } from "@/lib/iptv/types";
+
+/**
+ * postMessage protocol between an embedding page and `/embed`.
+ *
+ * Every message is an envelope `{ protocol: "streamplay", version, ... }`.
+ * Parents send commands (`type: "command"`); an optional `id` is echoed back in
+ * a `type: "response"` message once the command has been applied. The player
+ * sends `type: "event"` messages for readiness, state changes, errors and time
+ * updates. Messages with another protocol name or major version are ignored.
+ */
+export const EMBED_PROTOCOL = "streamplay";
+export const EMBED_PROTOCOL_VERSION = 1;
+
+interface Envelope {
+  protocol: typeof EMBED_PROTOCOL;
+  version: number;
+}
+
+export interface EmbedLoadSource {
+  src: string;
+  type?: StreamType;
+  poster?: string;
+  startTime?: number;
+  autoplay?: boolean;
+  /** Backup URLs, tried in order when `src` fails. */
+  alternates?: StreamAlternate[];
+}
+
+export type EmbedCommand =
+  | { command: "play" }
+  | { command: "pause" }
+  | { command: "seek"; time: number }
+  | { command: "load"; source: EmbedLoadSource }
+  /** `volume` is 0–1, like `HTMLMediaElement.volume`. */
+  | { command: "setVolume"; volume?: number; muted?: boolean };
+
+export type EmbedCommandMessage = Envelope & { type: "command"; id?: string } & EmbedCommand;
+
+export type EmbedEvent =
+  | { event: "ready"; src: string | null }
+  | { event: "state"; status: PlaybackStatus; error: string | null }
+  | {
+      event: "error";
+      message: string;
+      category: PlayerErrorCategory;
+      code?: string;
+      status?: number;
+      recoverable: boolean;
+    }
+  | { event: "timeupdate"; currentTime: number; duration: number; live: boolean };
+
+export type EmbedEventMessage = Envelope & { type: "event" } & EmbedEvent;
+
+export type EmbedResponseMessage = Envelope & { type: "response"; id: string; ok: boolean; error?: string };
+
+const COMMANDS = new Set<EmbedCommand["command"]>(["play", "pause", "seek", "load", "setVolume"]);
+
+const isEnvelope = (data: unknown): data is Envelope & Record<string, unknown> =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as Envelope).protocol === EMBED_PROTOCOL &&
+  Math.floor((data as Envelope).version) === EMBED_PROTOCOL_VERSION;
+
+/**
+ * Validates an incoming message. Returns null for foreign messages and
+ * throws for protocol messages with a malformed command, so the sender can be
+ * told what went wrong.
+ */
+export function parseEmbedCommand(data: unknown): EmbedCommandMessage | null {
+  if (!isEnvelope(data) || data.type !== "command") return null;
+
+  const command = data.command as EmbedCommand["command"];
+  if (!COMMANDS.has(command)) {
+    throw new Error(`Unknown command "${String(data.command)}"`);
+  }
+  if (command === "seek" && !Number.isFinite(data.time)) {
+    throw new Error("seek requires a numeric time");
+  }
+  if (command === "load") {
+    const source = data.source as EmbedLoadSource | undefined;
+    if (typeof source?.src !== "string" || !source.src.trim()) {
+      throw new Error("load requires source.src");
+    }
+    if (
+      source.alternates !== undefined &&
+      (!Array.isArray(source.alternates) || source.alternates.some((alternate) => typeof alternate?.src !== "string"))
+    ) {
+      throw new Error("load source.alternates must be a list of { src }");
+    }
+  }
+  if (command === "setVolume") {
+    const { volume, muted } = data as { volume?: unknown; muted?: unknown };
+    if (volume === undefined && muted === undefined) {
+      throw new Error("setVolume requires a volume or muted");
+    }
+    if (volume !== undefined && (typeof volume !== "number" || !Number.isFinite(volume) || volume < 0 || volume > 1)) {
+      throw new Error("setVolume requires a volume between 0 and 1");
+    }
+    if (muted !== undefined && typeof muted !== "boolean") {
+      throw new Error("setVolume muted must be a boolean");
+    }
+  }
+
+  return data as unknown as EmbedCommandMessage;
+}
+
+export const createEventMessage = (event: EmbedEvent): EmbedEventMessage => ({
+  protocol: EMBED_PROTOCOL,
+  version: EMBED_PROTOCOL_VERSION,
+  type: "event",
+  ...event,
+});
+
+export const createResponseMessage = (id: string, error?: string): EmbedResponseMessage => ({
+  protocol: EMBED_PROTOCOL,
+  version: EMBED_PROTOCOL_VERSION,
+  type: "response",
+  id,
+  ok: !error,
+  ...(error ? { error } : {}),
+});
+
+/**
+ * Origins allowed to control the embed, from `VITE_EMBED_ALLOWED_ORIGINS`
+ * (comma-separated). Entries may use a leading wildcard subdomain
+ * (`https://*.example.com`) or be `*` to allow any origin. The app's own
+ * origin is always allowed.
+ */
+export function getAllowedOrigins(): string[] {
+  const configured = (import.meta.env.VITE_EMBED_ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+  return [window.location.origin, ...configured];
+}
+
+export function isOriginAllowed(origin: string, allowList: string[]): boolean {
+  if (!origin || origin === "null") return false;
+
+  return allowList.some((allowed) => {
+    if (allowed === "*" || allowed === origin) return true;
+
+    const wildcard = /^(https?:\/\/)\*\.(.+)$/.exec(allowed);
+    if (!wildcard) return false;
+    const [, scheme, domain] = wildcard;
+    return origin.startsWith(scheme) && origin.slice(scheme.length).endsWith(`.${domain}`);
+  });
+}
+
+/** Best guess at the embedding page's origin before it has sent any message. */
+export function getParentOrigin(): string | null {
+  const ancestor = window.location.ancestorOrigins?.[0];
+  if (ancestor) return ancestor;
+  try {
+    return document.referrer ? new URL(document.referrer).origin : null;
+  } catch {
+    return null;
+  }
+}
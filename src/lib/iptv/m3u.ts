@@ -0,0 +1,218 @@
+import { formatPipeOptions, parsePipeOptions } from "@/lib/player/stream-descriptor";
+import type { StreamSource, StreamType } from "./types";
+
+export interface M3uEntry {
+  name: string;
+  url: string;
+  duration: number;
+  /** `#EXTINF` attributes such as `tvg-id`, `tvg-logo` and `group-title`. */
+  attributes: Record<string, string>;
+  /** `#EXTVLCOPT` options, e.g. `http-user-agent`. */
+  vlcOptions: Record<string, string>;
+  /** `#KODIPROP` properties, e.g. `inputstream.adaptive.license_key`. */
+  kodiProps: Record<string, string>;
+  group?: string;
+}
+
+export interface M3uPlaylist {
+  /** Header attributes from `#EXTM3U`, e.g. `url-tvg`. */
+  attributes: Record<string, string>;
+  entries: M3uEntry[];
+}
+
+const ATTRIBUTE_PATTERN = /([\w-]+)=("([^"]*)"|'([^']*)'|[^\s,]+)/g;
+
+const parseAttributes = (text: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = match[3] ?? match[4] ?? match[2];
+  }
+  return attributes;
+};
+
+/** Index of the comma separating EXTINF attributes from the title, ignoring quoted commas. */
+const findTitleSeparator = (text: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const parseOption = (text: string): [string, string] | null => {
+  const separator = text.indexOf("=");
+  if (separator === -1) return null;
+  return [text.slice(0, separator).trim().toLowerCase(), text.slice(separator + 1).trim()];
+};
+
+export function parseM3u(text: string): M3uPlaylist {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r\n?|\n/);
+  const playlist: M3uPlaylist = { attributes: {}, entries: [] };
+
+  let pending: Omit<M3uEntry, "url"> | null = null;
+  const startEntry = () => {
+    pending ??= { name: "", duration: -1, attributes: {}, vlcOptions: {}, kodiProps: {} };
+    return pending;
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith("#EXTM3U")) {
+      playlist.attributes = parseAttributes(line.slice("#EXTM3U".length));
+    } else if (line.startsWith("#EXTINF:")) {
+      const body = line.slice("#EXTINF:".length);
+      const separator = findTitleSeparator(body);
+      const head = separator === -1 ? body : body.slice(0, separator);
+      const entry = startEntry();
+      entry.name = separator === -1 ? "" : body.slice(separator + 1).trim();
+      entry.duration = parseFloat(head) || -1;
+      entry.attributes = parseAttributes(head.replace(/^-?[\d.]+/, ""));
+    } else if (line.startsWith("#EXTVLCOPT:")) {
+      const option = parseOption(line.slice("#EXTVLCOPT:".length));
+      if (option) startEntry().vlcOptions[option[0]] = option[1];
+    } else if (line.startsWith("#KODIPROP:")) {
+      const option = parseOption(line.slice("#KODIPROP:".length));
+      if (option) startEntry().kodiProps[option[0]] = option[1];
+    } else if (line.startsWith("#EXTGRP:")) {
+      startEntry().group = line.slice("#EXTGRP:".length).trim();
+    } else if (!line.startsWith("#")) {
+      const entry = startEntry();
+      playlist.entries.push({ ...entry, url: line, name: entry.name || line });
+      pending = null;
+    }
+  }
+
+  return playlist;
+}
+
+const LICENSE_SCHEMES: Record<string, string> = {
+  "com.widevine.alpha": "widevine",
+  widevine: "widevine",
+  "com.microsoft.playready": "playready",
+  playready: "playready",
+  "org.w3.clearkey": "clearkey",
+  clearkey: "clearkey",
+};
+
+/**
+ * Folds VLC and Kodi options into the `url|Key=value` grammar the player
+ * parses, so headers and DRM survive as part of the stream URL.
+ */
+export function buildStreamUrl(entry: M3uEntry): string {
+  const [baseUrl, existingSuffix] = entry.url.split(/\|(.*)/s);
+  const params = new Map(parsePipeOptions(existingSuffix ?? ""));
+  const { vlcOptions, kodiProps } = entry;
+
+  if (vlcOptions["http-user-agent"] && !params.has("User-Agent")) params.set("User-Agent", vlcOptions["http-user-agent"]);
+  if (vlcOptions["http-referrer"] && !params.has("Referer")) params.set("Referer", vlcOptions["http-referrer"]);
+  if (vlcOptions["http-origin"] && !params.has("Origin")) params.set("Origin", vlcOptions["http-origin"]);
+
+  const streamHeaders = kodiProps["inputstream.adaptive.stream_headers"];
+  if (streamHeaders) {
+    parsePipeOptions(streamHeaders).forEach(([key, value]) => {
+      if (!params.has(key)) params.set(key, value);
+    });
+  }
+
+  const licenseType = kodiProps["inputstream.adaptive.license_type"];
+  const licenseKey = kodiProps["inputstream.adaptive.license_key"];
+  if (licenseType && licenseKey) {
+    const scheme = LICENSE_SCHEMES[licenseType.toLowerCase()] ?? licenseType;
+    // Kodi packs license_key as url|headers|body|response; only url and headers apply here.
+    const [licenseUrl, licenseHeaders] = scheme === "clearkey" && !/^https?:/i.test(licenseKey)
+      ? [licenseKey]
+      : licenseKey.split("|");
+    params.set("drmScheme", scheme);
+    params.set("drmLicense", licenseUrl);
+    if (licenseHeaders) {
+      parsePipeOptions(licenseHeaders).forEach(([key, value]) => params.set(`drmHeader.${key}`, value));
+    }
+  }
+
+  const manifestType = kodiProps["inputstream.adaptive.manifest_type"];
+  if (manifestType && !params.has("type")) params.set("type", manifestType);
+
+  const suffix = formatPipeOptions(params);
+  return suffix ? `${baseUrl}|${suffix}` : baseUrl;
+}
+
+/** The type a Kodi `manifest_type` states, if any; anything else is left to detection. */
+export function getDeclaredStreamType(entry: M3uEntry): StreamType | undefined {
+  switch (entry.kodiProps["inputstream.adaptive.manifest_type"]?.toLowerCase()) {
+    case "mpd":
+      return "dash";
+    case "hls":
+      return "hls";
+    default:
+      return undefined;
+  }
+}
+
+/** A short stable id derived from the stream URL (FNV-1a). */
+export function createStreamId(url: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < url.length; i++) {
+    hash ^= url.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export function toStreamSource(entry: M3uEntry): StreamSource {
+  const { attributes } = entry;
+  const channelNumber = Number(attributes["tvg-chno"]);
+  const group = attributes["group-title"] || entry.group || undefined;
+  const src = buildStreamUrl(entry);
+
+  return {
+    id: createStreamId(src),
+    name: entry.name || attributes["tvg-name"] || "Untitled channel",
+    src,
+    type: getDeclaredStreamType(entry),
+    description: group ?? "Imported channel",
+    logo: attributes["tvg-logo"] || undefined,
+    group,
+    tvgId: attributes["tvg-id"] || undefined,
+    tvgName: attributes["tvg-name"] || undefined,
+    channelNumber: Number.isFinite(channelNumber) && channelNumber > 0 ? channelNumber : undefined,
+  };
+}
+
+/** XMLTV guide URL advertised in the `#EXTM3U` header, if any. */
+export function getPlaylistGuideUrl(playlist: M3uPlaylist): string | null {
+  const value = playlist.attributes["url-tvg"] ?? playlist.attributes["x-tvg-url"];
+  // Some providers list several guides separated by commas; the first one is used.
+  return value?.split(",")[0].trim() || null;
+}
+
+/** Reads an M3U playlist from a URL, a local file, or pasted text. */
+export async function loadM3u(input: string | File): Promise<M3uPlaylist> {
+  let text: string;
+
+  if (input instanceof File) {
+    text = await input.text();
+  } else if (/^https?:\/\//i.test(input.trim())) {
+    const response = await fetch(input.trim());
+    if (!response.ok) {
+      throw new Error(`Failed to load playlist (HTTP ${response.status})`);
+    }
+    text = await response.text();
+  } else {
+    text = input;
+  }
+
+  const playlist = parseM3u(text);
+  if (playlist.entries.length === 0) {
+    throw new Error("No channels were found in the playlist");
+  }
+  return playlist;
+}
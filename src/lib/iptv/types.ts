@@ -0,0 +1,26 @@
+/** `audio` is a plain audio file or radio stream (MP3, AAC, Ogg), played natively. */
+export type StreamType = "hls" | "dash" | "mp4" | "audio" | "ts" | "flv" | "webrtc";
+
+/** A backup URL for the same channel, tried in order when the ones before it fail. */
+export interface StreamAlternate {
+  /** May carry its own pipe options (headers, DRM), like `StreamSource.src`. */
+  src: string;
+  type?: StreamType;
+  /** Shown in the player, e.g. "Backup CDN". */
+  label?: string;
+}
+
+export interface StreamSource {
+  id?: string;
+  name: string;
+  src: string;
+  /** Only set when stated (playlist, link or probe); otherwise the player detects it. */
+  type?: StreamType;
+  description: string;
+  logo?: string;
+  group?: string;
+  tvgId?: string;
+  tvgName?: string;
+  channelNumber?: number;
+  alternates?: StreamAlternate[];
+}
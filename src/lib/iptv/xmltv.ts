@@ -0,0 +1,182 @@
+import type { StreamSource } from "./types";
+
+export interface EpgChannel {
+  id: string;
+  displayNames: string[];
+  icon?: string;
+}
+
+export interface EpgProgramme {
+  channelId: string;
+  /** Epoch milliseconds. */
+  start: number;
+  stop: number;
+  title: string;
+  subTitle?: string;
+  description?: string;
+  categories: string[];
+  icon?: string;
+}
+
+export interface EpgGuide {
+  channels: Map<string, EpgChannel>;
+  /** Programmes per XMLTV channel id, sorted by start time. */
+  programmes: Map<string, EpgProgramme[]>;
+}
+
+export interface NowNext {
+  now: EpgProgramme | null;
+  next: EpgProgramme | null;
+}
+
+const XMLTV_DATE = /^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?\s*(?:([+-])(\d{2}):?(\d{2}))?/;
+
+/** Parses XMLTV timestamps (`20240101193000 +0100`); a missing offset means UTC. */
+export function parseXmltvDate(value: string): number | null {
+  const match = XMLTV_DATE.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours = "0", minutes = "0", seconds = "0", sign, offsetHours, offsetMinutes] = match;
+  const utc = Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  const offset = sign ? (+offsetHours * 60 + +offsetMinutes) * (sign === "-" ? -1 : 1) : 0;
+  return utc - offset * 60_000;
+}
+
+const childText = (element: Element, tag: string) => element.getElementsByTagName(tag)[0]?.textContent?.trim() || undefined;
+
+export function parseXmltv(text: string): EpgGuide {
+  const document = new DOMParser().parseFromString(text, "application/xml");
+  if (document.getElementsByTagName("parsererror").length > 0 || document.documentElement.nodeName !== "tv") {
+    throw new Error("The file is not a valid XMLTV guide");
+  }
+
+  const guide: EpgGuide = { channels: new Map(), programmes: new Map() };
+
+  for (const element of document.getElementsByTagName("channel")) {
+    const id = element.getAttribute("id");
+    if (!id) continue;
+    guide.channels.set(id, {
+      id,
+      displayNames: [...element.getElementsByTagName("display-name")]
+        .map((name) => name.textContent?.trim())
+        .filter(Boolean),
+      icon: element.getElementsByTagName("icon")[0]?.getAttribute("src") || undefined,
+    });
+  }
+
+  for (const element of document.getElementsByTagName("programme")) {
+    const channelId = element.getAttribute("channel");
+    const start = parseXmltvDate(element.getAttribute("start") ?? "");
+    const stop = parseXmltvDate(element.getAttribute("stop") ?? "");
+    if (!channelId || start === null) continue;
+
+    const programme: EpgProgramme = {
+      channelId,
+      start,
+      stop: stop ?? start,
+      title: childText(element, "title") ?? "Untitled",
+      subTitle: childText(element, "sub-title"),
+      description: childText(element, "desc"),
+      categories: [...element.getElementsByTagName("category")].map((category) => category.textContent?.trim()).filter(Boolean),
+      icon: element.getElementsByTagName("icon")[0]?.getAttribute("src") || undefined,
+    };
+
+    let programmes = guide.programmes.get(channelId);
+    if (!programmes) {
+      programmes = [];
+      guide.programmes.set(channelId, programmes);
+    }
+    programmes.push(programme);
+  }
+
+  for (const programmes of guide.programmes.values()) {
+    programmes.sort((a, b) => a.start - b.start);
+    // Guides often omit `stop`; close each programme when the next one starts.
+    programmes.forEach((programme, index) => {
+      const next = programmes[index + 1];
+      if (programme.stop <= programme.start && next) programme.stop = next.start;
+    });
+  }
+
+  return guide;
+}
+
+const isGzip = (bytes: Uint8Array) => bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+async function gunzip(buffer: ArrayBuffer): Promise<string> {
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("This browser cannot decompress gzipped guides");
+  }
+  const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return new Response(stream).text();
+}
+
+/**
+ * Fetches or reads an XMLTV guide. Gzipped guides (`.xml.gz`) are detected by
+ * their magic bytes rather than the file name, since servers often send them
+ * without a matching Content-Encoding.
+ */
+export async function loadXmltv(input: string | File): Promise<EpgGuide> {
+  let buffer: ArrayBuffer;
+
+  if (typeof input === "string") {
+    const response = await fetch(input);
+    if (!response.ok) {
+      throw new Error(`Failed to load program guide (HTTP ${response.status})`);
+    }
+    buffer = await response.arrayBuffer();
+  } else {
+    buffer = await input.arrayBuffer();
+  }
+
+  const text = isGzip(new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength)))
+    ? await gunzip(buffer)
+    : new TextDecoder().decode(buffer);
+
+  const guide = parseXmltv(text);
+  if (guide.programmes.size === 0) {
+    throw new Error("No programmes were found in the guide");
+  }
+  return guide;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Resolves the guide channel for a playlist entry by `tvg-id`, falling back to
+ * matching `tvg-name` or the channel name against XMLTV display names.
+ */
+export function findGuideChannelId(guide: EpgGuide, channel: StreamSource): string | null {
+  if (channel.tvgId) {
+    if (guide.programmes.has(channel.tvgId)) return channel.tvgId;
+    const lowerId = channel.tvgId.toLowerCase();
+    for (const id of guide.programmes.keys()) {
+      if (id.toLowerCase() === lowerId) return id;
+    }
+  }
+
+  const names = [channel.tvgName, channel.name].filter(Boolean).map(normalizeName);
+  for (const { id, displayNames } of guide.channels.values()) {
+    if (displayNames.some((name) => names.includes(normalizeName(name)))) return id;
+  }
+  return null;
+}
+
+export function getChannelProgrammes(guide: EpgGuide | null, channel: StreamSource): EpgProgramme[] {
+  if (!guide) return [];
+  const id = findGuideChannelId(guide, channel);
+  return id ? guide.programmes.get(id) ?? [] : [];
+}
+
+export function getNowNext(programmes: EpgProgramme[], time = Date.now()): NowNext {
+  const index = programmes.findIndex((programme) => programme.stop > time);
+  if (index === -1) return { now: null, next: null };
+
+  const candidate = programmes[index];
+  return candidate.start <= time
+    ? { now: candidate, next: programmes[index + 1] ?? null }
+    : { now: null, next: candidate };
+}
+
+export const formatClockTime = (time: number) =>
+  new Date(time).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
@@ -0,0 +1,96 @@
+const DB_NAME = "streamplay-library";
+const DB_VERSION = 1;
+
+export type StoreName = "channels" | "playlists" | "groups" | "recents";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains("channels")) {
+    const channels = db.createObjectStore("channels", { keyPath: "id" });
+    channels.createIndex("playlistId", "playlistId");
+  }
+  if (!db.objectStoreNames.contains("playlists")) {
+    db.createObjectStore("playlists", { keyPath: "id" });
+  }
+  if (!db.objectStoreNames.contains("groups")) {
+    db.createObjectStore("groups", { keyPath: "id" });
+  }
+  if (!db.objectStoreNames.contains("recents")) {
+    db.createObjectStore("recents", { keyPath: "id" });
+  }
+}
+
+export function openLibraryDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema; drop this connection so it can proceed.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error ?? new Error("Failed to open the library database"));
+      request.onblocked = () => console.warn("Library database upgrade is blocked by another tab");
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs `work` inside a single transaction and resolves with its result once
+ * the transaction commits, so callers never observe partially applied writes.
+ */
+export async function withStores<T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const db = await openLibraryDb();
+  const transaction = db.transaction(storeNames, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Library transaction was aborted"));
+  });
+  // Surfaced through `await completed` below; this only silences the abort path.
+  completed.catch(() => undefined);
+
+  try {
+    const result = await work(transaction);
+    await completed;
+    return result;
+  } catch (error) {
+    try {
+      transaction.abort();
+    } catch {
+      // Already finished.
+    }
+    throw error;
+  }
+}
+
+export const getAll = <T>(transaction: IDBTransaction, storeName: StoreName) =>
+  promisifyRequest<T[]>(transaction.objectStore(storeName).getAll());
+
+export const getOne = <T>(transaction: IDBTransaction, storeName: StoreName, key: IDBValidKey) =>
+  promisifyRequest<T | undefined>(transaction.objectStore(storeName).get(key));
@@ -0,0 +1,283 @@
+import { createStreamId } from "@/lib/iptv/m3u";
+import type { StreamSource } from "@/lib/iptv/types";
+import { getAll, getOne, promisifyRequest, withStores } from "./db";
+import type { LibraryChannel, LibraryGroup, LibraryPlaylist, RecentEntry } from "./types";
+
+const MAX_RECENTS = 50;
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const byPosition = <T extends { position: number }>(a: T, b: T) => a.position - b.position;
+
+/** Strips library bookkeeping so a channel can be handed to the player or stored as a snapshot. */
+export function toSourceSnapshot(channel: StreamSource): StreamSource {
+  const { id, name, src, type, description, logo, group, tvgId, tvgName, channelNumber, alternates } = channel;
+  return { id, name, src, type, description, logo, group, tvgId, tvgName, channelNumber, alternates };
+}
+
+export const getChannelId = (source: StreamSource) => source.id ?? createStreamId(source.src);
+
+// Channels
+
+export async function listChannels(): Promise<LibraryChannel[]> {
+  const channels = await withStores("channels", "readonly", (tx) => getAll<LibraryChannel>(tx, "channels"));
+  return channels.sort(byPosition);
+}
+
+export function getChannel(id: string): Promise<LibraryChannel | undefined> {
+  return withStores("channels", "readonly", (tx) => getOne<LibraryChannel>(tx, "channels", id));
+}
+
+/** Adds a stream to the library. Re-adding one refreshes the existing entry's alternates. */
+export function addChannel(source: StreamSource, playlistId: string | null = null): Promise<LibraryChannel> {
+  return withStores("channels", "readwrite", async (tx) => {
+    const id = getChannelId(source);
+    const existing = await getOne<LibraryChannel>(tx, "channels", id);
+    if (existing) {
+      if (JSON.stringify(existing.alternates) === JSON.stringify(source.alternates)) return existing;
+      const refreshed: LibraryChannel = { ...existing, alternates: source.alternates };
+      tx.objectStore("channels").put(refreshed);
+      return refreshed;
+    }
+
+    const channels = await getAll<LibraryChannel>(tx, "channels");
+    const channel: LibraryChannel = {
+      ...toSourceSnapshot(source),
+      id,
+      playlistId,
+      favorite: false,
+      position: channels.reduce((max, { position }) => Math.max(max, position + 1), 0),
+      addedAt: Date.now(),
+    };
+    tx.objectStore("channels").put(channel);
+    return channel;
+  });
+}
+
+export function removeChannel(id: string): Promise<void> {
+  return withStores(["channels", "groups"], "readwrite", async (tx) => {
+    tx.objectStore("channels").delete(id);
+    await removeFromGroups(tx, new Set([id]));
+  });
+}
+
+export function setFavorite(id: string, favorite: boolean): Promise<void> {
+  return withStores("channels", "readwrite", async (tx) => {
+    const channel = await getOne<LibraryChannel>(tx, "channels", id);
+    if (!channel) throw new Error("Channel not found in the library");
+    tx.objectStore("channels").put({ ...channel, favorite });
+  });
+}
+
+/** Persists a new channel order; `ids` lists channels in their new display order. */
+export function reorderChannels(ids: string[]): Promise<void> {
+  return withStores("channels", "readwrite", async (tx) => {
+    const channels = await getAll<LibraryChannel>(tx, "channels");
+    const order = new Map(ids.map((id, index) => [id, index]));
+    const store = tx.objectStore("channels");
+    // Channels missing from `ids` keep their relative order after the listed ones.
+    channels
+      .sort((a, b) => (order.get(a.id) ?? ids.length + a.position) - (order.get(b.id) ?? ids.length + b.position))
+      .forEach((channel, position) => {
+        if (channel.position !== position) store.put({ ...channel, position });
+      });
+  });
+}
+
+// Playlists
+
+export async function listPlaylists(): Promise<LibraryPlaylist[]> {
+  const playlists = await withStores("playlists", "readonly", (tx) => getAll<LibraryPlaylist>(tx, "playlists"));
+  return playlists.sort((a, b) => b.importedAt - a.importedAt);
+}
+
+interface PlaylistInput {
+  name: string;
+  url: string | null;
+  guideUrl: string | null;
+}
+
+/**
+ * Stores an imported playlist and its channels. Re-importing the same URL
+ * refreshes it in place: channels that are still listed keep their favorite
+ * flag and position, and channels that disappeared are removed.
+ */
+export function savePlaylist(input: PlaylistInput, sources: StreamSource[]): Promise<LibraryPlaylist> {
+  return withStores(["playlists", "channels", "groups"], "readwrite", async (tx) => {
+    const id = input.url ? createStreamId(input.url) : createId();
+    const channelStore = tx.objectStore("channels");
+    const channels = await getAll<LibraryChannel>(tx, "channels");
+    const existing = new Map(channels.map((channel) => [channel.id, channel]));
+
+    let nextPosition = channels.reduce((max, { position }) => Math.max(max, position + 1), 0);
+    const keptIds = new Set<string>();
+    const now = Date.now();
+
+    for (const source of sources) {
+      const channelId = getChannelId(source);
+      if (keptIds.has(channelId)) continue;
+      keptIds.add(channelId);
+
+      const previous = existing.get(channelId);
+      channelStore.put({
+        ...toSourceSnapshot(source),
+        id: channelId,
+        playlistId: id,
+        favorite: previous?.favorite ?? false,
+        position: previous?.position ?? nextPosition++,
+        addedAt: previous?.addedAt ?? now,
+      } satisfies LibraryChannel);
+    }
+
+    const removed = new Set(
+      channels.filter((channel) => channel.playlistId === id && !keptIds.has(channel.id)).map(({ id }) => id)
+    );
+    removed.forEach((channelId) => channelStore.delete(channelId));
+    await removeFromGroups(tx, removed);
+
+    const playlist: LibraryPlaylist = {
+      id,
+      name: input.name,
+      url: input.url,
+      guideUrl: input.guideUrl,
+      channelCount: keptIds.size,
+      importedAt: now,
+    };
+    tx.objectStore("playlists").put(playlist);
+    return playlist;
+  });
+}
+
+export function removePlaylist(id: string): Promise<void> {
+  return withStores(["playlists", "channels", "groups"], "readwrite", async (tx) => {
+    const channelIds = await promisifyRequest(tx.objectStore("channels").index("playlistId").getAllKeys(id));
+    channelIds.forEach((channelId) => tx.objectStore("channels").delete(channelId));
+    tx.objectStore("playlists").delete(id);
+    await removeFromGroups(tx, new Set(channelIds.map(String)));
+  });
+}
+
+// Groups
+
+export async function listGroups(): Promise<LibraryGroup[]> {
+  const groups = await withStores("groups", "readonly", (tx) => getAll<LibraryGroup>(tx, "groups"));
+  return groups.sort(byPosition);
+}
+
+export function createGroup(name: string): Promise<LibraryGroup> {
+  const trimmed = name.trim();
+  if (!trimmed) return Promise.reject(new Error("Group name cannot be empty"));
+
+  return withStores("groups", "readwrite", async (tx) => {
+    const groups = await getAll<LibraryGroup>(tx, "groups");
+    const group: LibraryGroup = {
+      id: createId(),
+      name: trimmed,
+      position: groups.reduce((max, { position }) => Math.max(max, position + 1), 0),
+      channelIds: [],
+    };
+    tx.objectStore("groups").put(group);
+    return group;
+  });
+}
+
+const updateGroup = (id: string, update: (group: LibraryGroup) => LibraryGroup) =>
+  withStores("groups", "readwrite", async (tx) => {
+    const group = await getOne<LibraryGroup>(tx, "groups", id);
+    if (!group) throw new Error("Group not found in the library");
+    tx.objectStore("groups").put(update(group));
+  });
+
+export function renameGroup(id: string, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) return Promise.reject(new Error("Group name cannot be empty"));
+  return updateGroup(id, (group) => ({ ...group, name: trimmed }));
+}
+
+export function deleteGroup(id: string): Promise<void> {
+  return withStores("groups", "readwrite", (tx) => {
+    tx.objectStore("groups").delete(id);
+  });
+}
+
+export function setGroupMembership(groupId: string, channelId: string, member: boolean): Promise<void> {
+  return updateGroup(groupId, (group) => {
+    const channelIds = group.channelIds.filter((id) => id !== channelId);
+    return { ...group, channelIds: member ? [...channelIds, channelId] : channelIds };
+  });
+}
+
+export function reorderGroupChannels(groupId: string, channelIds: string[]): Promise<void> {
+  return updateGroup(groupId, (group) => ({
+    ...group,
+    channelIds: [...channelIds.filter((id) => group.channelIds.includes(id)), ...group.channelIds.filter((id) => !channelIds.includes(id))],
+  }));
+}
+
+export function reorderGroups(ids: string[]): Promise<void> {
+  return withStores("groups", "readwrite", async (tx) => {
+    const groups = await getAll<LibraryGroup>(tx, "groups");
+    groups.forEach((group) => {
+      const position = ids.indexOf(group.id);
+      if (position !== -1 && position !== group.position) tx.objectStore("groups").put({ ...group, position });
+    });
+  });
+}
+
+async function removeFromGroups(tx: IDBTransaction, channelIds: Set<string>) {
+  if (channelIds.size === 0) return;
+  const groups = await getAll<LibraryGroup>(tx, "groups");
+  groups.forEach((group) => {
+    if (group.channelIds.some((id) => channelIds.has(id))) {
+      tx.objectStore("groups").put({ ...group, channelIds: group.channelIds.filter((id) => !channelIds.has(id)) });
+    }
+  });
+}
+
+// Recents
+
+export async function listRecents(limit = MAX_RECENTS): Promise<RecentEntry[]> {
+  const recents = await withStores("recents", "readonly", (tx) => getAll<RecentEntry>(tx, "recents"));
+  return recents.sort((a, b) => b.watchedAt - a.watchedAt).slice(0, limit);
+}
+
+/** Moves a stream to the top of the recently watched list, trimming the oldest entries. */
+export function recordWatch(source: StreamSource): Promise<void> {
+  return withStores("recents", "readwrite", async (tx) => {
+    const id = getChannelId(source);
+    const store = tx.objectStore("recents");
+    store.put({ id, channel: toSourceSnapshot({ ...source, id }), watchedAt: Date.now() } satisfies RecentEntry);
+
+    const recents = await getAll<RecentEntry>(tx, "recents");
+    recents
+      .sort((a, b) => b.watchedAt - a.watchedAt)
+      .slice(MAX_RECENTS)
+      .forEach((entry) => store.delete(entry.id));
+  });
+}
+
+export function clearRecents(): Promise<void> {
+  return withStores("recents", "readwrite", (tx) => {
+    tx.objectStore("recents").clear();
+  });
+}
+
+/**
+ * Resolves a `/watch/:id` link: library channels first, then the recents
+ * snapshot, so streams watched outside the library stay reachable.
+ */
+export function findStream(id: string): Promise<StreamSource | null> {
+  return withStores(["channels", "recents"], "readonly", async (tx) => {
+    const channel = await getOne<LibraryChannel>(tx, "channels", id);
+    if (channel) return channel;
+    const recent = await getOne<RecentEntry>(tx, "recents", id);
+    return recent?.channel ?? null;
+  });
+}
+
+/** Removes every channel, playlist, group and history entry. */
+export function clearLibrary(): Promise<void> {
+  return withStores(["channels", "playlists", "groups", "recents"], "readwrite", (tx) => {
+    (["channels", "playlists", "groups", "recents"] as const).forEach((name) => tx.objectStore(name).clear());
+  });
+}
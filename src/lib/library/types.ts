@@ -0,0 +1,36 @@
+import type { StreamSource } from "@/lib/iptv/types";
+
+export interface LibraryChannel extends StreamSource {
+  id: string;
+  /** Playlist the channel was imported from; `null` for URLs added by hand. */
+  playlistId: string | null;
+  favorite: boolean;
+  /** Sort key for user-defined ordering. */
+  position: number;
+  addedAt: number;
+}
+
+export interface LibraryPlaylist {
+  id: string;
+  name: string;
+  url: string | null;
+  /** XMLTV guide advertised by the playlist header. */
+  guideUrl: string | null;
+  channelCount: number;
+  importedAt: number;
+}
+
+export interface LibraryGroup {
+  id: string;
+  name: string;
+  position: number;
+  /** Member channel ids in display order. */
+  channelIds: string[];
+}
+
+export interface RecentEntry {
+  id: string;
+  /** Snapshot of the stream, so recents survive the channel being removed. */
+  channel: StreamSource;
+  watchedAt: number;
+}
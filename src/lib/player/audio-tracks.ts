@@ -0,0 +1,48 @@
+import type { AudioRole } from "./types";
+
+/** Maps HLS CHARACTERISTICS, DASH Role values and track names onto a role. */
+export function parseAudioRole(...hints: (string | null | undefined)[]): AudioRole {
+  const text = hints.filter(Boolean).join(" ").toLowerCase();
+
+  if (text.includes("describes-video") || text.includes("description") || text.includes("describes")) {
+    return "description";
+  }
+  if (text.includes("commentary")) {
+    return "commentary";
+  }
+  if (text.includes("alternate") || text.includes("dub")) {
+    return "alternate";
+  }
+  return "main";
+}
+
+const languageNames =
+  typeof Intl !== "undefined" && "DisplayNames" in Intl
+    ? new Intl.DisplayNames(undefined, { type: "language" })
+    : null;
+
+export function formatLanguage(language: string) {
+  if (!language || language === "und") return "Unknown";
+  try {
+    return languageNames?.of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
+
+export function formatChannels(channels?: number) {
+  switch (channels) {
+    case undefined:
+      return null;
+    case 1:
+      return "Mono";
+    case 2:
+      return "Stereo";
+    case 6:
+      return "5.1";
+    case 8:
+      return "7.1";
+    default:
+      return `${channels}ch`;
+  }
+}
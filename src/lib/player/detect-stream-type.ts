@@ -0,0 +1,64 @@
+import "./engines";
+import { resolveEngine } from "./engine-registry";
+import { probeStream, type StreamContainer } from "./probe";
+import type { EngineDefinition, StreamDescriptor, StreamFormat } from "./types";
+import { isWhepUrl } from "./whep";
+
+export interface DetectedStream {
+  format: StreamFormat;
+  engine: EngineDefinition | null;
+  /** Set when probing the URL identified the container; otherwise the format was guessed. */
+  container?: StreamContainer;
+}
+
+const FORMAT_BY_CONTAINER: Record<StreamContainer, StreamFormat> = {
+  hls: "hls",
+  dash: "dash",
+  mp4: "native",
+  webm: "native",
+  audio: "native",
+  mpegts: "mpegts",
+  flv: "flv",
+};
+
+/** Guesses from the URL alone, for when the stream can't be probed. */
+const guessFormat = ({ url, drm }: StreamDescriptor): StreamFormat => {
+  const urlLower = url.toLowerCase();
+  const path = urlLower.split(/[?#]/)[0];
+
+  if (path.includes("/whep")) {
+    return "webrtc";
+  }
+
+  if (urlLower.includes(".mpd") || urlLower.includes("/dash/") || drm) {
+    return "dash";
+  }
+  if (urlLower.includes(".m3u8") || urlLower.includes("/hls/")) {
+    return "hls";
+  }
+  if (urlLower.includes(".mp4") || urlLower.includes(".webm")) {
+    return "native";
+  }
+  if (path.endsWith(".ts")) {
+    return "mpegts";
+  }
+  if (path.endsWith(".flv")) {
+    return "flv";
+  }
+  return "hls";
+};
+
+/**
+ * Uses the format hint when there is one, then probes the URL, then guesses
+ * from it. `whep://` URLs are WebRTC signalling endpoints and are never probed.
+ */
+export async function detectStreamType(descriptor: StreamDescriptor, video: HTMLVideoElement): Promise<DetectedStream> {
+  const hinted = descriptor.hints.format ?? (isWhepUrl(descriptor.url) ? "webrtc" : undefined);
+  if (hinted) {
+    return { format: hinted, engine: resolveEngine(hinted, video) };
+  }
+
+  const probe = await probeStream(descriptor);
+  const format = probe ? FORMAT_BY_CONTAINER[probe.container] : guessFormat(descriptor);
+  return { format, engine: resolveEngine(format, video), container: probe?.container };
+}
@@ -0,0 +1,184 @@
+import { PlayerError } from "./errors";
+import type { DrmInfo, DrmScheme } from "./types";
+
+export const KEY_SYSTEMS: Record<DrmScheme, string> = {
+  clearkey: "org.w3.clearkey",
+  widevine: "com.widevine.alpha",
+  playready: "com.microsoft.playready",
+};
+
+const SCHEME_LABELS: Record<DrmScheme, string> = {
+  clearkey: "ClearKey",
+  widevine: "Widevine",
+  playready: "PlayReady",
+};
+
+const SCHEME_ALIASES: Record<string, DrmScheme> = {
+  clearkey: "clearkey",
+  "org.w3.clearkey": "clearkey",
+  widevine: "widevine",
+  wv: "widevine",
+  "com.widevine.alpha": "widevine",
+  playready: "playready",
+  pr: "playready",
+  "com.microsoft.playready": "playready",
+};
+
+export function parseDrmScheme(value: string): DrmScheme | null {
+  return SCHEME_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Checks that the browser can actually open a session for the descriptor's
+ * key system, so protected streams fail with an explanation instead of a bare
+ * Shaka error code.
+ */
+export async function assertDrmSupported(drm: DrmInfo) {
+  const label = SCHEME_LABELS[drm.scheme];
+
+  if (typeof window !== "undefined" && !window.isSecureContext) {
+    throw new PlayerError("drm", `${label} playback requires a secure (HTTPS) page`);
+  }
+  if (typeof navigator === "undefined" || !navigator.requestMediaKeySystemAccess) {
+    throw new PlayerError("drm", "Encrypted Media Extensions (EME) are not available in this browser");
+  }
+
+  try {
+    await navigator.requestMediaKeySystemAccess(KEY_SYSTEMS[drm.scheme], [
+      {
+        initDataTypes: ["cenc"],
+        videoCapabilities: [
+          { contentType: 'video/mp4; codecs="avc1.42E01E"', robustness: drm.videoRobustness ?? "" },
+        ],
+        audioCapabilities: [
+          { contentType: 'audio/mp4; codecs="mp4a.40.2"', robustness: drm.audioRobustness ?? "" },
+        ],
+      },
+    ]);
+  } catch {
+    const robustness = drm.videoRobustness ? ` at ${drm.videoRobustness} robustness` : "";
+    throw new PlayerError("drm", `${label} DRM is not supported by this browser${robustness}`);
+  }
+}
+
+const HEX_PATTERN = /^[0-9a-f]+$/i;
+const BASE64_PATTERN = /^[A-Za-z0-9+/_-]+={0,2}$/;
+
+/** Accepts hex (optionally UUID-dashed), base64 or base64url and returns lowercase hex. */
+export function normalizeKeyValue(value: string): string {
+  const trimmed = value.trim();
+  const dashless = trimmed.replace(/-/g, "");
+
+  if (dashless.length === 32 && HEX_PATTERN.test(dashless)) {
+    return dashless.toLowerCase();
+  }
+
+  if (BASE64_PATTERN.test(trimmed)) {
+    const base64 = trimmed.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+    try {
+      const bytes = atob(padded);
+      if (bytes.length === 16) {
+        return [...bytes].map((char) => char.charCodeAt(0).toString(16).padStart(2, "0")).join("");
+      }
+    } catch {
+      // Fall through to the error below.
+    }
+  }
+
+  throw new PlayerError("drm", `Invalid ClearKey value "${value}": expected 16 bytes as hex or base64`);
+}
+
+interface JsonWebKey {
+  kty?: string;
+  kid?: string;
+  k?: string;
+}
+
+/**
+ * Normalizes ClearKey material into the hex `kid -> key` map Shaka expects.
+ * Accepts comma-separated `kid:key` pairs, a JWK set (`{"keys":[{kid,k}]}`)
+ * or a plain JSON `{ kid: key }` object, with hex, base64 or base64url values.
+ */
+export function parseClearKeys(license: string): Record<string, string> {
+  const trimmed = license.trim();
+  const entries: [string, string][] = [];
+
+  if (trimmed.startsWith("{")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new PlayerError("drm", "Invalid ClearKey JSON");
+    }
+
+    const keys = (parsed as { keys?: JsonWebKey[] }).keys;
+    if (Array.isArray(keys)) {
+      keys.forEach(({ kid, k }) => {
+        if (kid && k) entries.push([kid, k]);
+      });
+    } else {
+      Object.entries(parsed as Record<string, unknown>).forEach(([kid, key]) => {
+        if (typeof key === "string") entries.push([kid, key]);
+      });
+    }
+  } else {
+    trimmed.split(",").forEach((pair) => {
+      const separator = pair.indexOf(":");
+      if (separator === -1) {
+        throw new PlayerError("drm", `Invalid ClearKey pair "${pair.trim()}": expected kid:key`);
+      }
+      entries.push([pair.slice(0, separator), pair.slice(separator + 1)]);
+    });
+  }
+
+  if (entries.length === 0) {
+    throw new PlayerError("drm", "No ClearKey keys were provided");
+  }
+
+  return Object.fromEntries(entries.map(([kid, key]) => [normalizeKeyValue(kid), normalizeKeyValue(key)]));
+}
+
+export const isLicenseUrl = (value: string) => /^https?:\/\//i.test(value.trim());
+
+/** Builds the `drm` section of a Shaka player configuration. */
+export function buildShakaDrmConfig(drm: DrmInfo) {
+  const keySystem = KEY_SYSTEMS[drm.scheme];
+
+  if (drm.clearKeys) {
+    return { clearKeys: drm.clearKeys };
+  }
+
+  return {
+    servers: { [keySystem]: drm.license },
+    advanced: {
+      [keySystem]: {
+        headers: drm.licenseHeaders,
+        serverCertificateUri: drm.serverCertificateUrl ?? "",
+        videoRobustness: drm.videoRobustness ? [drm.videoRobustness] : null,
+        audioRobustness: drm.audioRobustness ? [drm.audioRobustness] : null,
+      },
+    },
+  };
+}
+
+/**
+ * Builds the EME options of an hls.js configuration. hls.js only fetches
+ * licenses from a server, so ClearKey needs a license URL rather than keys.
+ */
+export function buildHlsDrmConfig(drm: DrmInfo) {
+  if (drm.clearKeys) {
+    throw new PlayerError("drm", "ClearKey keys in the URL only work for DASH streams", {
+      engine: "hls.js",
+      suggestion: "Use a ClearKey license server URL for HLS streams, or play the DASH version.",
+    });
+  }
+
+  return {
+    emeEnabled: true,
+    drmSystems: {
+      [KEY_SYSTEMS[drm.scheme]]: { licenseUrl: drm.license, serverCertificateUrl: drm.serverCertificateUrl },
+    },
+    drmSystemOptions: { videoRobustness: drm.videoRobustness, audioRobustness: drm.audioRobustness },
+  };
+}
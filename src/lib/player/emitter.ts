@@ -0,0 +1,31 @@
+type Listener<T> = (payload: T) => void;
+
+export interface Emitter<Events extends object> {
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void;
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void;
+  clear(): void;
+}
+
+export function createEmitter<Events extends object>(): Emitter<Events> {
+  const listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  return {
+    on(event, listener) {
+      let set = listeners.get(event);
+      if (!set) {
+        set = new Set();
+        listeners.set(event, set);
+      }
+      set.add(listener as Listener<never>);
+      return () => {
+        set.delete(listener as Listener<never>);
+      };
+    },
+    emit(event, payload) {
+      listeners.get(event)?.forEach((listener) => (listener as Listener<typeof payload>)(payload));
+    },
+    clear() {
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import type { EngineDefinition, StreamFormat } from "./types";
+
+const engines = new Map<string, EngineDefinition>();
+
+export function registerEngine(definition: EngineDefinition) {
+  engines.set(definition.name, definition);
+}
+
+export function unregisterEngine(name: string) {
+  engines.delete(name);
+}
+
+export function getEngines(): EngineDefinition[] {
+  return [...engines.values()].sort((a, b) => b.priority - a.priority);
+}
+
+/** Returns the highest-priority registered engine able to play `format`. */
+export function resolveEngine(format: StreamFormat, video: HTMLVideoElement): EngineDefinition | null {
+  return (
+    getEngines().find(
+      (engine) => engine.formats.includes(format) && engine.supports(format, video)
+    ) ?? null
+  );
+}
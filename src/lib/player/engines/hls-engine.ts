@@ -0,0 +1,310 @@
+import type Hls from "hls.js";
+import type { ErrorData } from "hls.js";
+import { createEmitter } from "../emitter";
+import { buildHlsDrmConfig } from "../drm";
+import { PlayerError, classifyRequestFailure, describeFailure, type PlayerErrorCategory } from "../errors";
+import { applyRequestHeaders } from "../stream-descriptor";
+import {
+  LOW_LATENCY_DEFAULTS,
+  getBufferAhead,
+  getDroppedFrames,
+  getSeekableRange,
+  isMseSupported,
+} from "../media";
+import { parseAudioRole } from "../audio-tracks";
+import { DEFAULT_RECOVERY_POLICY } from "../recovery";
+import type {
+  AudioTrack,
+  EngineDefinition,
+  EngineEventMap,
+  PlaybackEngine,
+  SubtitleTrack,
+  VideoTrack,
+} from "../types";
+import { getMediaTextTracks, toSubtitleTrack } from "./native-text-tracks";
+
+type HlsConstructor = typeof Hls;
+
+const MEDIA_RECOVERY_WINDOW = 30000;
+
+const MANIFEST_ERRORS = new Set([
+  "manifestParsingError",
+  "manifestIncompatibleCodecsError",
+  "levelEmptyError",
+  "levelParsingError",
+]);
+
+const categorizeHlsError = (data: ErrorData): PlayerErrorCategory => {
+  // Compared as strings so this works without the runtime hls.js enums.
+  const type: string = data.type;
+  const details: string = data.details;
+  if (type === "keySystemError" || details.startsWith("keyLoad")) return "drm";
+  if (details.endsWith("TimeOut")) return "timeout";
+  if (MANIFEST_ERRORS.has(details)) return "manifest";
+  if (type === "networkError") return classifyRequestFailure(data.response?.code);
+  if (type === "mediaError" || type === "muxError") return "media";
+  return "unknown";
+};
+
+const toHlsPlayerError = (data: ErrorData): PlayerError => {
+  const category = categorizeHlsError(data);
+  const status = data.response?.code || undefined;
+  return new PlayerError(category, describeFailure(category, status), {
+    code: data.details,
+    engine: "hls.js",
+    status,
+    url: data.url ?? data.context?.url ?? data.frag?.url,
+    cause: data,
+  });
+};
+
+const createHlsEngine = (HlsClass: HlsConstructor, video: HTMLVideoElement): PlaybackEngine => {
+  const events = createEmitter<EngineEventMap>();
+  let hls: Hls | null = null;
+  let selectedCaptions: TextTrack | null = null;
+
+  const getVideoTracks = (): VideoTrack[] => {
+    if (!hls) return [];
+    return hls.levels.map((level, index) => ({
+      id: String(index),
+      width: level.width || undefined,
+      height: level.height || undefined,
+      bitrate: level.bitrate || undefined,
+      codecs: level.videoCodec,
+      active: index === hls.currentLevel,
+    }));
+  };
+
+  const getAudioTracks = (): AudioTrack[] => {
+    if (!hls) return [];
+    return hls.audioTracks.map((track, index) => ({
+      id: String(index),
+      language: track.lang ?? "und",
+      label: track.name || undefined,
+      role: parseAudioRole(track.characteristics, track.name),
+      channels: track.channels ? parseInt(track.channels, 10) || undefined : undefined,
+      active: index === hls.audioTrack,
+    }));
+  };
+
+  // hls.js renders CEA-608 captions into native "captions" tracks that are not
+  // part of subtitleTracks, so they are listed and toggled directly.
+  const getCaptionTracks = () => getMediaTextTracks(video, "cc").filter(({ track }) => track.kind === "captions");
+
+  const getTextTracks = (): SubtitleTrack[] => {
+    if (!hls) return [];
+    const subtitles: SubtitleTrack[] = hls.subtitleTracks.map((track, index) => ({
+      id: `sub:${index}`,
+      language: track.lang ?? "und",
+      label: track.name || undefined,
+      kind: "subtitles",
+      source: "manifest",
+      active: !selectedCaptions && index === hls.subtitleTrack,
+    }));
+    const captions = getCaptionTracks().map((entry) => toSubtitleTrack(entry, entry.track === selectedCaptions));
+    return [...subtitles, ...captions];
+  };
+
+  const onTextTracksChanged = () => events.emit("textTracksChanged", getTextTracks());
+
+  const onNativeTrackAdded = (event: TrackEvent) => {
+    const track = event.track as TextTrack | null;
+    if (track?.kind === "captions" && track !== selectedCaptions) {
+      track.mode = "disabled";
+    }
+    onTextTracksChanged();
+  };
+
+  return {
+    name: "hls.js",
+    on: events.on,
+    getVideoTracks,
+
+    selectVideoTrack(id) {
+      if (!hls) return;
+      hls.currentLevel = id === "auto" ? -1 : Number(id);
+      events.emit("tracksChanged", getVideoTracks());
+    },
+
+    isAutoQuality() {
+      return hls?.autoLevelEnabled ?? true;
+    },
+
+    getAudioTracks,
+
+    selectAudioTrack(id) {
+      if (!hls) return;
+      hls.audioTrack = Number(id);
+    },
+
+    getTextTracks,
+
+    selectTextTrack(id) {
+      if (!hls) return;
+      selectedCaptions = null;
+      getCaptionTracks().forEach(({ id: trackId, track }) => {
+        track.mode = trackId === id ? "hidden" : "disabled";
+        if (trackId === id) selectedCaptions = track;
+      });
+      hls.subtitleTrack = id?.startsWith("sub:") ? Number(id.slice(4)) : -1;
+      onTextTracksChanged();
+    },
+
+    getCueTrack() {
+      if (selectedCaptions) return selectedCaptions;
+      if (!hls || hls.subtitleTrack < 0) return null;
+      const selected = hls.subtitleTracks[hls.subtitleTrack];
+      const candidates = getMediaTextTracks(video, "sub")
+        .map(({ track }) => track)
+        .filter((track) => track.kind === "subtitles" && track.label === selected?.name);
+      return candidates.find((track) => track.mode !== "disabled") ?? candidates[0] ?? null;
+    },
+
+    isLive() {
+      return hls?.latestLevelDetails?.live ?? video.duration === Infinity;
+    },
+
+    getSeekableRange() {
+      return getSeekableRange(video);
+    },
+
+    getLiveEdge() {
+      return hls?.liveSyncPosition ?? getSeekableRange(video)?.end ?? null;
+    },
+
+    load(source, options) {
+      return new Promise<void>((resolve, reject) => {
+        let loaded = false;
+        let mediaRecoveries = 0;
+        let lastMediaRecovery = 0;
+        const mediaRecoveryAttempts =
+          options?.recovery?.mediaRecoveryAttempts ?? DEFAULT_RECOVERY_POLICY.mediaRecoveryAttempts;
+        const { lowLatency, targetLatency } = source.hints;
+        // Without an explicit target, hls.js derives one from PART-HOLD-BACK.
+        const liveSync = targetLatency
+          ? { liveSyncDuration: targetLatency, liveMaxLatencyDuration: Math.max(targetLatency * 3, targetLatency + 10) }
+          : {};
+
+        hls = new HlsClass({
+          enableWorker: true,
+          debug: false,
+          capLevelToPlayerSize: true,
+          maxLoadingDelay: 1,
+          maxBufferLength: 15,
+          maxBufferSize: 20 * 1000 * 1000,
+          fragLoadingTimeOut: 8000,
+          manifestLoadingTimeOut: 4000,
+          startLevel: -1,
+          lowLatencyMode: !!lowLatency,
+          ...(lowLatency
+            ? { ...liveSync, maxLiveSyncPlaybackRate: LOW_LATENCY_DEFAULTS.maxCatchUpRate, backBufferLength: 30 }
+            : {}),
+          audioPreference: options?.preferredAudioLanguage
+            ? { lang: options.preferredAudioLanguage }
+            : undefined,
+          ...(source.drm ? buildHlsDrmConfig(source.drm) : {}),
+          // hls.js calls these before `open()`, when headers can't be set yet.
+          xhrSetup: (xhr, url) => {
+            xhr.open("GET", url, true);
+            applyRequestHeaders(xhr, source.headers);
+          },
+          licenseXhrSetup: (xhr, url) => {
+            xhr.open("POST", url, true);
+            applyRequestHeaders(xhr, source.drm?.licenseHeaders ?? {});
+          },
+        });
+
+        hls.on(HlsClass.Events.MANIFEST_PARSED, () => {
+          loaded = true;
+          events.emit("tracksChanged", getVideoTracks());
+          resolve();
+        });
+
+        hls.on(HlsClass.Events.LEVEL_SWITCHED, () => {
+          events.emit("tracksChanged", getVideoTracks());
+        });
+
+        const onAudioTracksChanged = () => events.emit("audioTracksChanged", getAudioTracks());
+        hls.on(HlsClass.Events.AUDIO_TRACKS_UPDATED, onAudioTracksChanged);
+        hls.on(HlsClass.Events.AUDIO_TRACK_SWITCHED, onAudioTracksChanged);
+
+        hls.on(HlsClass.Events.ERROR, (_, data) => {
+          console.error("HLS error:", data);
+          if (!data.fatal) return;
+
+          // Network failures are left to the player's retry policy; media
+          // errors get a bounded number of in-place recoveries first. Errors
+          // long after the last recovery count as a new incident.
+          if (data.type === HlsClass.ErrorTypes.MEDIA_ERROR) {
+            const now = Date.now();
+            if (now - lastMediaRecovery > MEDIA_RECOVERY_WINDOW) mediaRecoveries = 0;
+            if (mediaRecoveries < mediaRecoveryAttempts) {
+              mediaRecoveries++;
+              lastMediaRecovery = now;
+              console.log(`Media error, attempting recovery (${mediaRecoveries}/${mediaRecoveryAttempts})...`);
+              if (mediaRecoveries > 1) {
+                hls?.swapAudioCodec();
+              }
+              hls?.recoverMediaError();
+              return;
+            }
+          }
+
+          const error = toHlsPlayerError(data);
+          if (loaded) {
+            events.emit("error", { error, fatal: true });
+          } else {
+            reject(error);
+          }
+        });
+
+        hls.subtitleDisplay = false;
+        hls.on(HlsClass.Events.SUBTITLE_TRACKS_UPDATED, onTextTracksChanged);
+        hls.on(HlsClass.Events.SUBTITLE_TRACK_SWITCH, onTextTracksChanged);
+        video.textTracks.addEventListener("addtrack", onNativeTrackAdded);
+        video.textTracks.addEventListener("removetrack", onTextTracksChanged);
+
+        hls.loadSource(source.url);
+        hls.attachMedia(video);
+      });
+    },
+
+    async destroy() {
+      events.clear();
+      video.textTracks.removeEventListener("addtrack", onNativeTrackAdded);
+      video.textTracks.removeEventListener("removetrack", onTextTracksChanged);
+      selectedCaptions = null;
+      hls?.destroy();
+      hls = null;
+    },
+
+    getStats() {
+      const level = hls && hls.currentLevel >= 0 ? hls.levels[hls.currentLevel] : undefined;
+      return {
+        engine: "hls.js",
+        width: level?.width || video.videoWidth || undefined,
+        height: level?.height || video.videoHeight || undefined,
+        bitrate: level?.bitrate,
+        bandwidthEstimate: hls?.bandwidthEstimate,
+        droppedFrames: getDroppedFrames(video),
+        bufferAhead: getBufferAhead(video),
+        latency: hls?.latestLevelDetails?.live ? hls.latency : undefined,
+        targetLatency: hls?.targetLatency ?? undefined,
+      };
+    },
+  };
+};
+
+export const hlsEngine: EngineDefinition = {
+  name: "hls.js",
+  formats: ["hls"],
+  priority: 10,
+  supports: () => isMseSupported(),
+  create: async (video) => {
+    const Hls = (await import("hls.js")).default;
+    if (!Hls.isSupported()) {
+      throw new Error("HLS is not supported in this browser");
+    }
+    return createHlsEngine(Hls, video);
+  },
+};
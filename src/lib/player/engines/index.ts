@@ -0,0 +1,14 @@
+import { registerEngine } from "../engine-registry";
+import { hlsEngine } from "./hls-engine";
+import { mpegtsEngine } from "./mpegts-engine";
+import { nativeEngine } from "./native-engine";
+import { shakaEngine } from "./shaka-engine";
+import { whepEngine } from "./whep-engine";
+
+registerEngine(hlsEngine);
+registerEngine(shakaEngine);
+registerEngine(mpegtsEngine);
+registerEngine(nativeEngine);
+registerEngine(whepEngine);
+
+export { hlsEngine, mpegtsEngine, nativeEngine, shakaEngine, whepEngine };
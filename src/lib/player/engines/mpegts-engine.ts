@@ -0,0 +1,204 @@
+import type Mpegts from "mpegts.js";
+import { createEmitter } from "../emitter";
+import { PlayerError, classifyRequestFailure, describeFailure, type PlayerErrorCategory } from "../errors";
+import { LOW_LATENCY_DEFAULTS, getBufferAhead, getDroppedFrames, getSeekableRange, isMseSupported } from "../media";
+import type { EngineDefinition, EngineEventMap, PlaybackEngine } from "../types";
+
+type MpegtsModule = typeof Mpegts;
+
+interface MpegtsErrorInfo {
+  code?: number;
+  msg?: string;
+}
+
+const UNSUPPORTED_MEDIA_ERRORS = new Set(["FormatUnsupported", "CodecUnsupported"]);
+
+// Compared as strings so this works without the runtime mpegts.js enums.
+const categorizeMpegtsError = (type: string, details: string): PlayerErrorCategory => {
+  if (details === "ConnectingTimeout") return "timeout";
+  if (type === "NetworkError") {
+    return details === "HttpStatusCodeInvalid" ? "network" : classifyRequestFailure(undefined);
+  }
+  if (type === "MediaError") return "media";
+  return "unknown";
+};
+
+const toMpegtsPlayerError = (type: string, details: string, info: MpegtsErrorInfo = {}, url?: string): PlayerError => {
+  const category = categorizeMpegtsError(type, details);
+  const status = details === "HttpStatusCodeInvalid" && info.code > 0 ? info.code : undefined;
+  return new PlayerError(category, info.msg || describeFailure(category, status), {
+    code: details,
+    engine: "mpegts.js",
+    status,
+    url,
+    recoverable: UNSUPPORTED_MEDIA_ERRORS.has(details) ? false : undefined,
+    cause: { type, details, info },
+  });
+};
+
+/**
+ * Plays raw MPEG-TS and HTTP-FLV by transmuxing to fMP4 over MSE. These are
+ * continuous live feeds without a playlist, so there are no renditions or
+ * tracks to choose from and the stream is always treated as live.
+ */
+const createMpegtsEngine = (mpegts: MpegtsModule, video: HTMLVideoElement): PlaybackEngine => {
+  const events = createEmitter<EngineEventMap>();
+  let player: Mpegts.Player | null = null;
+  let mediaInfo: Mpegts.MSEPlayerMediaInfo | null = null;
+  let speed: number | undefined;
+  let onLoadedMetadata: (() => void) | null = null;
+
+  const getLiveEdge = () => {
+    const { buffered } = video;
+    return buffered.length > 0 ? buffered.end(buffered.length - 1) : null;
+  };
+
+  return {
+    name: "mpegts.js",
+    on: events.on,
+
+    load(source) {
+      return new Promise<void>((resolve, reject) => {
+        let loaded = false;
+        const { lowLatency, targetLatency } = source.hints;
+        const maxLatency = (targetLatency ?? LOW_LATENCY_DEFAULTS.targetLatency) * 1.5;
+
+        player = mpegts.createPlayer(
+          { type: source.format, url: source.url, isLive: true },
+          {
+            enableWorker: true,
+            // The stash buffer smooths over jitter at the cost of latency.
+            enableStashBuffer: !lowLatency,
+            liveBufferLatencyChasing: !!lowLatency,
+            liveBufferLatencyMaxLatency: maxLatency,
+            liveBufferLatencyMinRemain: Math.min(0.5, maxLatency / 3),
+            headers: source.headers,
+          }
+        );
+
+        onLoadedMetadata = () => {
+          loaded = true;
+          onLoadedMetadata = null;
+          resolve();
+        };
+        video.addEventListener("loadedmetadata", onLoadedMetadata, { once: true });
+
+        player.on(mpegts.Events.ERROR, (type: string, details: string, info: MpegtsErrorInfo) => {
+          console.error("MPEG-TS error:", type, details, info);
+          const error = toMpegtsPlayerError(type, details, info, source.url);
+          if (loaded) {
+            events.emit("error", { error, fatal: true });
+          } else {
+            video.removeEventListener("loadedmetadata", onLoadedMetadata);
+            onLoadedMetadata = null;
+            reject(error);
+          }
+        });
+
+        player.on(mpegts.Events.MEDIA_INFO, (info: Mpegts.MSEPlayerMediaInfo) => {
+          mediaInfo = info;
+        });
+
+        player.on(mpegts.Events.STATISTICS_INFO, (info: Mpegts.MSEPlayerStatisticsInfo) => {
+          speed = info.speed;
+        });
+
+        player.attachMediaElement(video);
+        player.load();
+      });
+    },
+
+    async destroy() {
+      events.clear();
+      if (onLoadedMetadata) {
+        video.removeEventListener("loadedmetadata", onLoadedMetadata);
+        onLoadedMetadata = null;
+      }
+      if (player) {
+        player.unload();
+        player.detachMediaElement();
+        player.destroy();
+        player = null;
+      }
+      mediaInfo = null;
+      speed = undefined;
+    },
+
+    getVideoTracks() {
+      return [];
+    },
+
+    selectVideoTrack() {
+      // A transport stream carries a single rendition.
+    },
+
+    isAutoQuality() {
+      return true;
+    },
+
+    getAudioTracks() {
+      return [];
+    },
+
+    selectAudioTrack() {
+      // mpegts.js plays the first audio stream only.
+    },
+
+    getTextTracks() {
+      return [];
+    },
+
+    selectTextTrack() {
+      // No text tracks are extracted from the stream.
+    },
+
+    getCueTrack() {
+      return null;
+    },
+
+    isLive() {
+      return true;
+    },
+
+    getSeekableRange() {
+      return getSeekableRange(video);
+    },
+
+    getLiveEdge,
+
+    getStats() {
+      const edge = getLiveEdge();
+      const dataRate = (mediaInfo?.videoDataRate ?? 0) + (mediaInfo?.audioDataRate ?? 0);
+      return {
+        engine: "mpegts.js",
+        width: mediaInfo?.width || video.videoWidth || undefined,
+        height: mediaInfo?.height || video.videoHeight || undefined,
+        // mpegts.js reports data rates in kbit/s and download speed in KB/s.
+        bitrate: dataRate > 0 ? dataRate * 1000 : undefined,
+        bandwidthEstimate: speed ? speed * 1024 * 8 : undefined,
+        droppedFrames: getDroppedFrames(video),
+        bufferAhead: getBufferAhead(video),
+        latency: edge !== null ? Math.max(0, edge - video.currentTime) : undefined,
+      };
+    },
+  };
+};
+
+export const mpegtsEngine: EngineDefinition = {
+  name: "mpegts.js",
+  formats: ["mpegts", "flv"],
+  priority: 10,
+  supports: () => isMseSupported(),
+  create: async (video) => {
+    const mpegts = (await import("mpegts.js")).default;
+    if (!mpegts.getFeatureList().mseLivePlayback) {
+      throw new PlayerError("media", "Live MPEG-TS and FLV playback is not supported in this browser", {
+        engine: "mpegts.js",
+        recoverable: false,
+        suggestion: "Try a browser with Media Source Extensions, or an HLS version of the stream.",
+      });
+    }
+    mpegts.LoggingControl.applyConfig({ enableVerbose: false, enableDebug: false, enableInfo: false });
+    return createMpegtsEngine(mpegts, video);
+  },
+};
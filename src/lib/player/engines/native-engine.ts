@@ -0,0 +1,111 @@
+import { createEmitter } from "../emitter";
+import { fromMediaError } from "../errors";
+import { getBufferAhead, getDroppedFrames, getSeekableRange, waitForMetadata } from "../media";
+import type { EngineDefinition, EngineEventMap, PlaybackEngine } from "../types";
+import { getMediaTextTracks, toSubtitleTrack } from "./native-text-tracks";
+
+const createNativeEngine = (video: HTMLVideoElement): PlaybackEngine => {
+  const events = createEmitter<EngineEventMap>();
+  let selectedTextTrack: TextTrack | null = null;
+
+  const getTextTracks = () =>
+    getMediaTextTracks(video, "native").map((entry) => toSubtitleTrack(entry, entry.track === selectedTextTrack));
+  const onTextTracksChanged = () => events.emit("textTracksChanged", getTextTracks());
+  // Load failures reject `load`; this reports the ones that happen mid-playback.
+  const onMediaError = () => events.emit("error", { error: fromMediaError(video.error, video.currentSrc), fatal: true });
+
+  return {
+    name: "native",
+    on: events.on,
+
+    async load(source) {
+      if (Object.keys(source.headers).length > 0) {
+        console.warn("Custom request headers are not supported for native playback and will be ignored");
+      }
+      video.textTracks.addEventListener("addtrack", onTextTracksChanged);
+      video.textTracks.addEventListener("removetrack", onTextTracksChanged);
+      video.src = source.url;
+      await waitForMetadata(video);
+      video.addEventListener("error", onMediaError);
+      onTextTracksChanged();
+    },
+
+    async destroy() {
+      events.clear();
+      video.textTracks.removeEventListener("addtrack", onTextTracksChanged);
+      video.textTracks.removeEventListener("removetrack", onTextTracksChanged);
+      video.removeEventListener("error", onMediaError);
+      selectedTextTrack = null;
+      video.removeAttribute("src");
+      video.load();
+    },
+
+    getVideoTracks() {
+      return [];
+    },
+
+    selectVideoTrack() {
+      // Native playback does not expose renditions.
+    },
+
+    isAutoQuality() {
+      return true;
+    },
+
+    getAudioTracks() {
+      return [];
+    },
+
+    selectAudioTrack() {
+      // Native audio tracks are not exposed consistently across browsers.
+    },
+
+    getTextTracks,
+
+    selectTextTrack(id) {
+      selectedTextTrack = null;
+      getMediaTextTracks(video, "native").forEach(({ id: trackId, track }) => {
+        track.mode = trackId === id ? "hidden" : "disabled";
+        if (trackId === id) selectedTextTrack = track;
+      });
+      onTextTracksChanged();
+    },
+
+    getCueTrack() {
+      return selectedTextTrack;
+    },
+
+    isLive() {
+      return video.duration === Infinity;
+    },
+
+    getSeekableRange() {
+      return getSeekableRange(video);
+    },
+
+    getLiveEdge() {
+      return getSeekableRange(video)?.end ?? null;
+    },
+
+    getStats() {
+      const range = getSeekableRange(video);
+      return {
+        engine: "native",
+        width: video.videoWidth || undefined,
+        height: video.videoHeight || undefined,
+        droppedFrames: getDroppedFrames(video),
+        bufferAhead: getBufferAhead(video),
+        latency: video.duration === Infinity && range ? range.end - video.currentTime : undefined,
+      };
+    },
+  };
+};
+
+export const nativeEngine: EngineDefinition = {
+  name: "native",
+  formats: ["native", "hls"],
+  priority: 0,
+  supports: (format, video) =>
+    format === "native" || !!video.canPlayType("application/vnd.apple.mpegurl"),
+  create: async (video) => createNativeEngine(video),
+};
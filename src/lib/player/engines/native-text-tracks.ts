@@ -0,0 +1,26 @@
+import { isOwnCueTrack } from "../subtitles";
+import type { SubtitleTrack } from "../types";
+
+export interface IndexedTextTrack {
+  id: string;
+  track: TextTrack;
+}
+
+/** Text tracks the media or engine added to the element, keyed by their position. */
+export function getMediaTextTracks(video: HTMLVideoElement, prefix: string): IndexedTextTrack[] {
+  return [...video.textTracks]
+    .map((track, index) => ({ id: `${prefix}:${index}`, track }))
+    .filter(({ track }) => !isOwnCueTrack(track) && track.kind !== "metadata");
+}
+
+export function toSubtitleTrack({ id, track }: IndexedTextTrack, active: boolean): SubtitleTrack {
+  const isCaptions = track.kind === "captions";
+  return {
+    id,
+    language: track.language || "und",
+    label: track.label || undefined,
+    kind: isCaptions ? "captions" : "subtitles",
+    source: isCaptions ? "embedded" : "manifest",
+    active,
+  };
+}
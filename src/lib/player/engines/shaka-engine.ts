@@ -0,0 +1,320 @@
+import { assertDrmSupported, buildShakaDrmConfig } from "../drm";
+import { createEmitter } from "../emitter";
+import { PlayerError, classifyRequestFailure, describeFailure, toPlayerError, type PlayerErrorCategory } from "../errors";
+import { LOW_LATENCY_DEFAULTS, getBufferAhead, getDroppedFrames, isMseSupported } from "../media";
+import { parseAudioRole } from "../audio-tracks";
+import { acquireCueTrack } from "../subtitles";
+import type {
+  AudioTrack,
+  EngineDefinition,
+  EngineEventMap,
+  PlaybackEngine,
+  SubtitleTrack,
+  VideoTrack,
+} from "../types";
+import { createCueTrackDisplayer } from "./shaka-text-displayer";
+
+type Shaka = typeof import("shaka-player/dist/shaka-player.ui.js").default;
+
+// shaka.util.Error.Category values.
+const SHAKA_CATEGORIES: Record<number, PlayerErrorCategory> = {
+  1: "network",
+  2: "media",
+  3: "media",
+  4: "manifest",
+  6: "drm",
+};
+
+const toShakaPlayerError = (error: shaka.util.Error): PlayerError => {
+  const { code, data = [] } = error;
+  let category = SHAKA_CATEGORIES[error.category] ?? "unknown";
+  let status: number | undefined;
+  let url: string | undefined;
+
+  if (error.category === 1) {
+    url = typeof data[0] === "string" ? data[0] : undefined;
+    // BAD_HTTP_STATUS carries the status; HTTP_ERROR means no response at all.
+    if (code === 1001 && typeof data[1] === "number") status = data[1];
+    if (code === 1002) category = classifyRequestFailure(undefined);
+    if (code === 1003) category = "timeout";
+  }
+
+  return new PlayerError(category, describeFailure(category, status), {
+    code: String(code),
+    engine: "shaka",
+    status,
+    url,
+    cause: error,
+  });
+};
+
+const createShakaEngine = (shaka: Shaka, video: HTMLVideoElement): PlaybackEngine => {
+  const events = createEmitter<EngineEventMap>();
+  const player = new shaka.Player();
+  const cueTrack = acquireCueTrack(video, "shaka", "Shaka text");
+
+  // Variants pair every video stream with every audio stream; only the ones
+  // sharing the current audio are distinct renditions from the viewer's view.
+  const getRenditions = () => {
+    const variants = player.getVariantTracks();
+    const active = variants.find((track) => track.active);
+    const renditions = new Map<string, shaka.extern.Track>();
+
+    variants.forEach((track) => {
+      if (track.videoId == null) return;
+      if (active && track.audioId !== active.audioId) return;
+      const id = String(track.videoId);
+      if (!renditions.has(id) || track.active) {
+        renditions.set(id, track);
+      }
+    });
+    return renditions;
+  };
+
+  const getVideoTracks = (): VideoTrack[] =>
+    [...getRenditions()].map(([id, track]) => ({
+      id,
+      width: track.width ?? undefined,
+      height: track.height ?? undefined,
+      bitrate: track.videoBandwidth ?? track.bandwidth,
+      codecs: track.videoCodec ?? undefined,
+      active: track.active,
+    }));
+
+  const toAudioTrackId = (language: string, role: string) => `${language}|${role}`;
+
+  const getAudioTracks = (): AudioTrack[] => {
+    const variants = player.getVariantTracks();
+    const active = variants.find((track) => track.active);
+
+    return player.getAudioLanguagesAndRoles().map(({ language, role, label }) => {
+      const variant = variants.find(
+        (track) => track.language === language && (!role || track.audioRoles?.includes(role))
+      );
+      return {
+        id: toAudioTrackId(language, role),
+        language,
+        label: label ?? undefined,
+        role: parseAudioRole(role, label),
+        channels: variant?.channelsCount ?? undefined,
+        active:
+          !!active && active.language === language && (!role || !!active.audioRoles?.includes(role)),
+      };
+    });
+  };
+
+  const isEmbeddedCaptions = (track: shaka.extern.TextTrack) => !!track.mimeType?.startsWith("application/cea-");
+
+  const getTextTracks = (): SubtitleTrack[] => {
+    const visible = player.isTextTrackVisible();
+    return player.getTextTracks().map((track) => ({
+      id: String(track.id),
+      language: track.language || "und",
+      label: track.label ?? undefined,
+      kind: track.kind === "caption" || isEmbeddedCaptions(track) ? "captions" : "subtitles",
+      source: isEmbeddedCaptions(track) ? "embedded" : "manifest",
+      active: visible && track.active,
+    }));
+  };
+
+  const onError = (event: Event) => {
+    const detail = (event as CustomEvent<shaka.util.Error>).detail;
+    console.error("Shaka error:", detail);
+    // Shaka keeps playing through RECOVERABLE (1) errors; only CRITICAL (2) ones stop it.
+    events.emit("error", { error: toShakaPlayerError(detail), fatal: detail.severity === 2 });
+  };
+
+  const onTracksChanged = () => {
+    events.emit("tracksChanged", getVideoTracks());
+    events.emit("audioTracksChanged", getAudioTracks());
+    events.emit("textTracksChanged", getTextTracks());
+  };
+
+  return {
+    name: "shaka",
+    on: events.on,
+    getVideoTracks,
+
+    selectVideoTrack(id) {
+      if (id === "auto") {
+        player.configure({ abr: { enabled: true } });
+      } else {
+        const track = getRenditions().get(id);
+        if (!track) return;
+        player.configure({ abr: { enabled: false } });
+        player.selectVariantTrack(track, true);
+      }
+      onTracksChanged();
+    },
+
+    isAutoQuality() {
+      return player.getConfiguration().abr.enabled;
+    },
+
+    getAudioTracks,
+
+    selectAudioTrack(id) {
+      const separator = id.indexOf("|");
+      const language = id.slice(0, separator);
+      const role = id.slice(separator + 1);
+      player.selectAudioLanguage(language, role || undefined);
+      onTracksChanged();
+    },
+
+    getTextTracks,
+
+    selectTextTrack(id) {
+      const track = id === null ? undefined : player.getTextTracks().find((candidate) => String(candidate.id) === id);
+      if (track) {
+        player.selectTextTrack(track);
+      }
+      player.setTextTrackVisibility(!!track);
+      onTracksChanged();
+    },
+
+    getCueTrack() {
+      return player.isTextTrackVisible() ? cueTrack : null;
+    },
+
+    isLive() {
+      return player.isLive();
+    },
+
+    getSeekableRange() {
+      const { start, end } = player.seekRange();
+      return end > start ? { start, end } : null;
+    },
+
+    getLiveEdge() {
+      return player.isLive() ? player.seekRange().end : null;
+    },
+
+    async load(source, options) {
+      await player.attach(video);
+
+      const { lowLatency, targetLatency = LOW_LATENCY_DEFAULTS.targetLatency } = source.hints;
+
+      player.configure({
+        streaming: {
+          bufferingGoal: 15,
+          rebufferingGoal: 8,
+          bufferBehind: 15,
+          retryParameters: {
+            timeout: 4000,
+            maxAttempts: 2,
+            baseDelay: 300,
+            backoffFactor: 1.3,
+            fuzzFactor: 0.2
+          },
+          useNativeHlsOnSafari: true,
+          lowLatencyMode: !!lowLatency,
+          liveSync: {
+            enabled: !!lowLatency,
+            targetLatency,
+            targetLatencyTolerance: 0.5,
+            maxPlaybackRate: LOW_LATENCY_DEFAULTS.maxCatchUpRate,
+            minPlaybackRate: LOW_LATENCY_DEFAULTS.minCatchUpRate
+          }
+        },
+        manifest: {
+          retryParameters: {
+            timeout: 4000,
+            maxAttempts: 2,
+            baseDelay: 300,
+            backoffFactor: 1.3,
+            fuzzFactor: 0.2
+          }
+        },
+        abr: {
+          enabled: true,
+          defaultBandwidthEstimate: 1500000
+        },
+        preferredAudioLanguage: options?.preferredAudioLanguage ?? "",
+        textDisplayFactory: () => createCueTrackDisplayer(cueTrack)
+      });
+
+      const { drm, headers } = source;
+      if (Object.keys(headers).length > 0) {
+        player.getNetworkingEngine()?.registerRequestFilter((_type, request) => {
+          Object.assign(request.headers, headers);
+        });
+      }
+
+      if (drm) {
+        await assertDrmSupported(drm);
+        player.configure({ drm: buildShakaDrmConfig(drm) });
+        console.log(`DRM configured with ${drm.scheme}`);
+      }
+
+      console.log("Loading Shaka stream:", source.url);
+      try {
+        await player.load(source.url);
+      } catch (error) {
+        console.error("Shaka error:", error);
+        throw typeof (error as shaka.util.Error)?.code === "number"
+          ? toShakaPlayerError(error as shaka.util.Error)
+          : toPlayerError(error, "Failed to load stream");
+      }
+
+      player.addEventListener("error", onError);
+      player.addEventListener("variantchanged", onTracksChanged);
+      player.addEventListener("adaptation", onTracksChanged);
+      player.addEventListener("trackschanged", onTracksChanged);
+      player.addEventListener("textchanged", onTracksChanged);
+      player.addEventListener("texttrackvisibility", onTracksChanged);
+      onTracksChanged();
+    },
+
+    async destroy() {
+      events.clear();
+      player.removeEventListener("error", onError);
+      player.removeEventListener("variantchanged", onTracksChanged);
+      player.removeEventListener("adaptation", onTracksChanged);
+      player.removeEventListener("trackschanged", onTracksChanged);
+      player.removeEventListener("textchanged", onTracksChanged);
+      player.removeEventListener("texttrackvisibility", onTracksChanged);
+      await player.destroy();
+    },
+
+    getStats() {
+      const stats = player.getStats();
+      return {
+        engine: "shaka",
+        width: stats.width || undefined,
+        height: stats.height || undefined,
+        bitrate: stats.streamBandwidth || undefined,
+        bandwidthEstimate: stats.estimatedBandwidth || undefined,
+        droppedFrames: stats.droppedFrames ?? getDroppedFrames(video),
+        bufferAhead: getBufferAhead(video),
+        latency: player.isLive() && stats.liveLatency ? stats.liveLatency : undefined,
+        targetLatency: player.getConfiguration().streaming.liveSync.enabled
+          ? player.getConfiguration().streaming.liveSync.targetLatency
+          : undefined,
+      };
+    },
+  };
+};
+
+let shakaModule: Promise<Shaka> | null = null;
+
+const loadShaka = () => {
+  shakaModule ??= import("shaka-player/dist/shaka-player.ui.js").then(({ default: shaka }) => {
+    shaka.polyfill.installAll();
+    return shaka;
+  });
+  return shakaModule;
+};
+
+export const shakaEngine: EngineDefinition = {
+  name: "shaka",
+  formats: ["dash"],
+  priority: 10,
+  supports: () => isMseSupported(),
+  create: async (video) => {
+    const shaka = await loadShaka();
+    if (!shaka.Player.isBrowserSupported()) {
+      throw new Error("This browser is not supported by Shaka Player");
+    }
+    return createShakaEngine(shaka, video);
+  },
+};
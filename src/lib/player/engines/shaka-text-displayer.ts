@@ -0,0 +1,62 @@
+import { clearCueTrack } from "../subtitles";
+
+const flattenCue = (cue: shaka.text.Cue): string => {
+  if (cue.lineBreak) return "\n";
+  if (cue.nestedCues.length > 0) return cue.nestedCues.map(flattenCue).join("");
+  return cue.payload;
+};
+
+/**
+ * A Shaka text displayer that writes cues into a hidden native track instead
+ * of drawing them, so Shaka subtitles and CEA-608/708 captions go through the
+ * same overlay as every other engine.
+ */
+export function createCueTrackDisplayer(track: TextTrack): shaka.extern.TextDisplayer {
+  let visible = false;
+
+  return {
+    append(cues) {
+      const existing = track.cues ? [...track.cues] : [];
+      cues.forEach((cue) => {
+        const text = flattenCue(cue).trim();
+        if (!text) return;
+        const duplicate = existing.some(
+          (current) =>
+            current.startTime === cue.startTime &&
+            current.endTime === cue.endTime &&
+            (current as VTTCue).text === text
+        );
+        if (!duplicate) {
+          track.addCue(new VTTCue(cue.startTime, cue.endTime, text));
+        }
+      });
+    },
+
+    remove(startTime, endTime) {
+      const cues = track.cues ? [...track.cues] : [];
+      cues
+        .filter((cue) => cue.startTime < endTime && cue.endTime > startTime)
+        .forEach((cue) => track.removeCue(cue));
+      return true;
+    },
+
+    setTextVisibility(on) {
+      visible = on;
+      track.mode = on ? "hidden" : "disabled";
+    },
+
+    isTextVisible() {
+      return visible;
+    },
+
+    configure() {},
+
+    setTextLanguage() {},
+
+    enableTextDisplayer() {},
+
+    async destroy() {
+      clearCueTrack(track);
+    },
+  };
+}
@@ -0,0 +1,297 @@
+import { createEmitter } from "../emitter";
+import { PlayerError } from "../errors";
+import { getDroppedFrames, waitForMetadata } from "../media";
+import type { EngineDefinition, EngineEventMap, PlaybackEngine, PlaybackStats } from "../types";
+import { endWhepSession, requestWhepAnswer, toWhepEndpoint } from "../whep";
+
+/** Without trickle ICE the offer should carry candidates, but not at any cost. */
+const ICE_GATHERING_TIMEOUT = 2000;
+/** `disconnected` often recovers by itself; only give up if it lasts this long. */
+const DISCONNECT_GRACE = 5000;
+const STATS_INTERVAL = 1000;
+
+const connectionLost = (url: string) =>
+  new PlayerError("network", "The WebRTC connection was lost", {
+    code: "WEBRTC_CONNECTION_FAILED",
+    engine: "whep",
+    url,
+    suggestion: "A firewall may be blocking UDP, or the server may need a TURN relay. Try again in a moment.",
+  });
+
+const loadAborted = (url: string) =>
+  new PlayerError("unknown", "The player was closed before the WebRTC stream loaded", {
+    code: "WEBRTC_LOAD_ABORTED",
+    engine: "whep",
+    url,
+    recoverable: false,
+  });
+
+const waitForIceGathering = (connection: RTCPeerConnection) =>
+  new Promise<void>((resolve) => {
+    if (connection.iceGatheringState === "complete") return resolve();
+    const done = () => {
+      clearTimeout(timeout);
+      connection.removeEventListener("icegatheringstatechange", onChange);
+      resolve();
+    };
+    const onChange = () => {
+      if (connection.iceGatheringState === "complete") done();
+    };
+    const timeout = setTimeout(done, ICE_GATHERING_TIMEOUT);
+    connection.addEventListener("icegatheringstatechange", onChange);
+  });
+
+/**
+ * Receives a live feed over WebRTC from a WHEP endpoint and plays the
+ * resulting `MediaStream`. There is no timeline to seek in and no renditions
+ * to choose; the stats carry the connection's RTT, jitter and packet loss.
+ */
+const createWhepEngine = (video: HTMLVideoElement): PlaybackEngine => {
+  const events = createEmitter<EngineEventMap>();
+  let connection: RTCPeerConnection | null = null;
+  let resourceUrl: string | null = null;
+  let requestHeaders: Record<string, string> = {};
+  let disconnectTimer: NodeJS.Timeout | null = null;
+  let statsTimer: NodeJS.Timeout | null = null;
+  let stats: PlaybackStats = { engine: "whep" };
+  let lastBytes: { bytes: number; timestamp: number } | null = null;
+  // Negotiation spans several awaits; `destroy` may land in any of them.
+  let destroyed = false;
+  const negotiation = new AbortController();
+  let abortLoad: (() => void) | null = null;
+
+  const clearDisconnectTimer = () => {
+    if (disconnectTimer) {
+      clearTimeout(disconnectTimer);
+      disconnectTimer = null;
+    }
+  };
+
+  const pollStats = async () => {
+    if (!connection) return;
+    const report = await connection.getStats();
+    let roundTripTime: number | undefined;
+    let jitter: number | undefined;
+    let jitterBufferDelay: number | undefined;
+    let packetsLost = 0;
+    let packetsReceived = 0;
+    let bytes = 0;
+    let timestamp = 0;
+
+    report.forEach((entry: RTCStats) => {
+      if (entry.type === "candidate-pair") {
+        const pair = entry as RTCIceCandidatePairStats;
+        if (pair.nominated && pair.state === "succeeded") roundTripTime = pair.currentRoundTripTime;
+      } else if (entry.type === "inbound-rtp") {
+        const rtp = entry as RTCInboundRtpStreamStats;
+        packetsLost += Math.max(0, rtp.packetsLost ?? 0);
+        packetsReceived += rtp.packetsReceived ?? 0;
+        bytes += rtp.bytesReceived ?? 0;
+        timestamp = Math.max(timestamp, rtp.timestamp);
+        // Video jitter matters most; audio's is used for audio-only feeds.
+        if (rtp.kind === "video" || jitter === undefined) {
+          jitter = rtp.jitter;
+          if (rtp.jitterBufferEmittedCount) {
+            jitterBufferDelay = rtp.jitterBufferDelay / rtp.jitterBufferEmittedCount;
+          }
+        }
+      }
+    });
+
+    const bitrate =
+      lastBytes && timestamp > lastBytes.timestamp
+        ? ((bytes - lastBytes.bytes) * 8 * 1000) / (timestamp - lastBytes.timestamp)
+        : undefined;
+    lastBytes = { bytes, timestamp };
+    const totalPackets = packetsLost + packetsReceived;
+
+    stats = {
+      engine: "whep",
+      width: video.videoWidth || undefined,
+      height: video.videoHeight || undefined,
+      bitrate: bitrate && bitrate > 0 ? Math.round(bitrate) : undefined,
+      droppedFrames: getDroppedFrames(video),
+      // Network transit plus time spent in the jitter buffer; encoder delay is not visible here.
+      latency:
+        roundTripTime !== undefined && jitterBufferDelay !== undefined ? roundTripTime / 2 + jitterBufferDelay : undefined,
+      roundTripTime,
+      jitter,
+      packetLoss: totalPackets > 0 ? packetsLost / totalPackets : undefined,
+    };
+  };
+
+  return {
+    name: "whep",
+    on: events.on,
+
+    load(source) {
+      return new Promise<void>((resolve, reject) => {
+        let loaded = false;
+        let settled = false;
+        const endpoint = toWhepEndpoint(source.url);
+        const peer = new RTCPeerConnection({ bundlePolicy: "max-bundle" });
+        const stream = new MediaStream();
+        connection = peer;
+        requestHeaders = source.headers;
+
+        abortLoad = () => {
+          if (settled) return;
+          settled = true;
+          reject(loadAborted(endpoint));
+        };
+
+        const fail = (error: PlayerError) => {
+          clearDisconnectTimer();
+          if (loaded) {
+            events.emit("error", { error, fatal: true });
+          } else if (!settled) {
+            settled = true;
+            reject(error);
+          }
+        };
+
+        peer.addTransceiver("video", { direction: "recvonly" });
+        peer.addTransceiver("audio", { direction: "recvonly" });
+        peer.addEventListener("track", (event) => stream.addTrack(event.track));
+        peer.addEventListener("connectionstatechange", () => {
+          switch (peer.connectionState) {
+            case "connected":
+              clearDisconnectTimer();
+              break;
+            case "disconnected":
+              if (!disconnectTimer) {
+                disconnectTimer = setTimeout(() => fail(connectionLost(endpoint)), DISCONNECT_GRACE);
+              }
+              break;
+            case "failed":
+              fail(connectionLost(endpoint));
+              break;
+          }
+        });
+        video.srcObject = stream;
+
+        const negotiate = async () => {
+          await peer.setLocalDescription(await peer.createOffer());
+          await waitForIceGathering(peer);
+          const session = await requestWhepAnswer(
+            endpoint,
+            peer.localDescription.sdp,
+            source.headers,
+            negotiation.signal
+          );
+          if (destroyed) {
+            // The server created a session nobody is going to use.
+            if (session.resourceUrl) endWhepSession(session.resourceUrl, source.headers);
+            return;
+          }
+          resourceUrl = session.resourceUrl;
+          await peer.setRemoteDescription({ type: "answer", sdp: session.answer });
+          await waitForMetadata(video);
+        };
+
+        negotiate()
+          .then(() => {
+            if (destroyed || settled) return;
+            settled = true;
+            loaded = true;
+            statsTimer = setInterval(() => pollStats().catch(console.warn), STATS_INTERVAL);
+            pollStats().catch(console.warn);
+            resolve();
+          })
+          .catch((error) => {
+            if (settled) return;
+            settled = true;
+            reject(
+              error instanceof PlayerError
+                ? error
+                : new PlayerError("media", "WebRTC negotiation with the WHEP endpoint failed", {
+                    code: "WEBRTC_NEGOTIATION_FAILED",
+                    engine: "whep",
+                    url: endpoint,
+                    recoverable: false,
+                    cause: error,
+                  })
+            );
+          });
+      });
+    },
+
+    async destroy() {
+      destroyed = true;
+      negotiation.abort();
+      abortLoad?.();
+      abortLoad = null;
+      events.clear();
+      clearDisconnectTimer();
+      if (statsTimer) {
+        clearInterval(statsTimer);
+        statsTimer = null;
+      }
+      if (resourceUrl) {
+        endWhepSession(resourceUrl, requestHeaders);
+        resourceUrl = null;
+      }
+      connection?.close();
+      connection = null;
+      video.srcObject = null;
+      stats = { engine: "whep" };
+      lastBytes = null;
+    },
+
+    getVideoTracks() {
+      return [];
+    },
+
+    selectVideoTrack() {
+      // The sender picks the encoding; there is nothing to switch between.
+    },
+
+    isAutoQuality() {
+      return true;
+    },
+
+    getAudioTracks() {
+      return [];
+    },
+
+    selectAudioTrack() {
+      // A WHEP session carries a single audio track.
+    },
+
+    getTextTracks() {
+      return [];
+    },
+
+    selectTextTrack() {
+      // WebRTC has no text tracks.
+    },
+
+    getCueTrack() {
+      return null;
+    },
+
+    isLive() {
+      return true;
+    },
+
+    getSeekableRange() {
+      return null;
+    },
+
+    getLiveEdge() {
+      return null;
+    },
+
+    getStats() {
+      return stats;
+    },
+  };
+};
+
+export const whepEngine: EngineDefinition = {
+  name: "whep",
+  formats: ["webrtc"],
+  priority: 10,
+  supports: () => typeof RTCPeerConnection !== "undefined",
+  create: async (video) => createWhepEngine(video),
+};
@@ -0,0 +1,184 @@
+import type { PlaybackStatus } from "./playback-state";
+
+export type PlayerErrorCategory =
+  | "network"
+  | "manifest"
+  | "media"
+  | "drm"
+  | "autoplay"
+  | "cors"
+  | "timeout"
+  | "unknown";
+
+export interface PlayerErrorDetails {
+  /** Engine-specific code, e.g. `manifestLoadError` (hls.js), `1001` (Shaka), `MEDIA_ERR_DECODE`. */
+  code?: string;
+  engine?: string;
+  /** HTTP status of the failed request, when the server answered. */
+  status?: number;
+  url?: string;
+  /** Whether retrying the same source may succeed. Defaults by category. */
+  recoverable?: boolean;
+  /** What the viewer can do about it. Defaults by category. */
+  suggestion?: string;
+  cause?: unknown;
+}
+
+const SUGGESTIONS: Record<PlayerErrorCategory, string> = {
+  network: "Check your connection and that the stream URL is still valid.",
+  manifest: "The playlist or manifest could not be read. Make sure the URL points to an HLS or DASH stream.",
+  media: "The browser could not decode this stream. Try another quality or a different browser.",
+  drm: "This stream is protected. Check the license server or keys, and that the page is served over HTTPS.",
+  autoplay: "The browser blocked autoplay. Press play to start.",
+  cors: "The server does not allow playback from this site. Use a CORS-enabled URL or a proxy.",
+  timeout: "The server took too long to respond. Try again in a moment.",
+  unknown: "Try again, or open the stream in another player to check that it works.",
+};
+
+const HTTP_SUGGESTIONS: Record<number, string> = {
+  401: "The server asked for credentials. The stream may need a token or extra headers.",
+  403: "The server refused access. The stream may be geo-blocked or need a User-Agent or Referer header.",
+  404: "The stream was not found. The playlist may be out of date.",
+  410: "The stream is no longer available. The playlist may be out of date.",
+};
+
+const isRecoverableByDefault = (category: PlayerErrorCategory, status?: number) => {
+  switch (category) {
+    case "network":
+      return !status || status >= 500 || status === 408 || status === 429;
+    case "manifest":
+    case "drm":
+    case "cors":
+      return false;
+    default:
+      return true;
+  }
+};
+
+/** A categorised playback failure, carrying enough context to explain and report it. */
+export class PlayerError extends Error {
+  readonly category: PlayerErrorCategory;
+  readonly code?: string;
+  readonly engine?: string;
+  readonly status?: number;
+  readonly url?: string;
+  readonly recoverable: boolean;
+  readonly suggestion: string;
+  readonly cause?: unknown;
+
+  constructor(category: PlayerErrorCategory, message: string, details: PlayerErrorDetails = {}) {
+    super(message);
+    this.name = "PlayerError";
+    this.category = category;
+    this.code = details.code;
+    this.engine = details.engine;
+    this.status = details.status;
+    this.url = details.url;
+    this.recoverable = details.recoverable ?? isRecoverableByDefault(category, details.status);
+    this.suggestion =
+      details.suggestion ?? (details.status && HTTP_SUGGESTIONS[details.status]) ?? SUGGESTIONS[category];
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * Category for a request that failed without a usable response. Browsers hide
+ * CORS rejections behind a status of 0, which is otherwise only seen offline.
+ */
+export function classifyRequestFailure(status: number | undefined): PlayerErrorCategory {
+  if (!status && typeof navigator !== "undefined" && navigator.onLine) {
+    return "cors";
+  }
+  return "network";
+}
+
+/** Viewer-facing message for an engine failure that has no better description. */
+export function describeFailure(category: PlayerErrorCategory, status?: number): string {
+  switch (category) {
+    case "network":
+      return status ? `The stream server responded with HTTP ${status}` : "The stream could not be downloaded";
+    case "cors":
+      return "The stream server blocked the request (CORS)";
+    case "timeout":
+      return "The stream server timed out";
+    case "manifest":
+      return "The stream manifest could not be parsed";
+    case "drm":
+      return "The stream could not be decrypted";
+    case "media":
+      return "The stream could not be decoded";
+    case "autoplay":
+      return "Autoplay was blocked";
+    default:
+      return "Playback failed";
+  }
+}
+
+const MEDIA_ERROR_CODES: Record<number, string> = {
+  1: "MEDIA_ERR_ABORTED",
+  2: "MEDIA_ERR_NETWORK",
+  3: "MEDIA_ERR_DECODE",
+  4: "MEDIA_ERR_SRC_NOT_SUPPORTED",
+};
+
+/** Maps the `<video>` element's `MediaError`, as seen by native playback. */
+export function fromMediaError(error: MediaError | null, url?: string): PlayerError {
+  const code = error ? MEDIA_ERROR_CODES[error.code] : undefined;
+  const details = { code, engine: "native", url, cause: error };
+
+  switch (error?.code) {
+    case 2:
+      return new PlayerError("network", error.message || "The stream stopped downloading", details);
+    case 3:
+      return new PlayerError("media", error.message || "The stream could not be decoded", details);
+    case 4:
+      return new PlayerError("media", error.message || "The stream format is not supported or the URL could not be opened", {
+        ...details,
+        recoverable: false,
+        suggestion: "Check that the URL is reachable and points to a format this browser can play.",
+      });
+    default:
+      return new PlayerError("unknown", error?.message || "The media could not be loaded", details);
+  }
+}
+
+/** Wraps anything thrown while loading, keeping `PlayerError`s as they are. */
+export function toPlayerError(error: unknown, fallback = "Failed to initialize player"): PlayerError {
+  if (error instanceof PlayerError) return error;
+
+  const message = error instanceof Error ? error.message : fallback;
+  if (error instanceof DOMException && error.name === "NotAllowedError") {
+    return new PlayerError("autoplay", message, { cause: error });
+  }
+  if (error instanceof DOMException && error.name === "NotSupportedError") {
+    return new PlayerError("media", message, { cause: error, recoverable: false });
+  }
+  return new PlayerError("unknown", message, { cause: error });
+}
+
+export interface DiagnosticsContext {
+  src?: string;
+  status?: PlaybackStatus;
+}
+
+/** Plain-text report for bug reports and support requests. */
+export function formatDiagnostics(error: PlayerError, context: DiagnosticsContext = {}): string {
+  const lines: [string, unknown][] = [
+    ["Error", error.message],
+    ["Category", error.category],
+    ["Code", error.code],
+    ["Engine", error.engine],
+    ["HTTP status", error.status],
+    ["Request URL", error.url],
+    ["Recoverable", error.recoverable ? "yes" : "no"],
+    ["Stream", context.src],
+    ["Player status", context.status],
+    ["Time", new Date().toISOString()],
+    ["Page", typeof location !== "undefined" ? location.href : undefined],
+    ["User agent", typeof navigator !== "undefined" ? navigator.userAgent : undefined],
+  ];
+  return lines
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([label, value]) => `${label}: ${value}`)
+    .join("\n");
+}
@@ -0,0 +1,104 @@
+import { parseStreamTitle } from "./timed-metadata";
+import type { NowPlaying, StreamDescriptor } from "./types";
+
+const STREAM_TITLE = /StreamTitle='(.*?)';/s;
+/** Titles change between songs, so an occasional look is plenty. */
+const POLL_INTERVAL = 15000;
+
+/**
+ * Reads one response up to its first metadata block. Resolves to undefined when
+ * the server doesn't interleave metadata (or CORS hides `icy-metaint`), and to
+ * null when the block carries no title.
+ */
+async function readIcyTitle({ url, headers }: StreamDescriptor, signal: AbortSignal): Promise<string | null | undefined> {
+  const response = await fetch(url, {
+    headers: { ...headers, "Icy-MetaData": "1" },
+    cache: "no-store",
+    signal,
+  });
+  const metaInt = Number(response.headers.get("icy-metaint"));
+  if (!response.ok || !response.body || !metaInt) return undefined;
+
+  const reader = response.body.getReader();
+  let audioLeft = metaInt;
+  let block: Uint8Array | null = null;
+  let blockFilled = 0;
+
+  for (;;) {
+    const { done, value: chunk } = await reader.read();
+    if (done) return null;
+
+    let offset = 0;
+    while (offset < chunk.length) {
+      if (audioLeft > 0) {
+        const skipped = Math.min(audioLeft, chunk.length - offset);
+        audioLeft -= skipped;
+        offset += skipped;
+      } else if (!block) {
+        // One length byte, in units of 16 bytes, then the metadata itself.
+        const length = chunk[offset++] * 16;
+        if (length === 0) return null;
+        block = new Uint8Array(length);
+      } else {
+        const copied = Math.min(block.length - blockFilled, chunk.length - offset);
+        block.set(chunk.subarray(offset, offset + copied), blockFilled);
+        blockFilled += copied;
+        offset += copied;
+        if (blockFilled === block.length) {
+          return new TextDecoder().decode(block).replace(/\0+$/, "").match(STREAM_TITLE)?.[1] ?? null;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Reads Icecast/Shoutcast `StreamTitle` updates. Browsers never hand ICY
+ * metadata to the media element, so every `POLL_INTERVAL` this requests the
+ * stream with `Icy-MetaData: 1` and drops the connection after the first
+ * metadata block, rather than downloading the audio twice. A failed poll is
+ * retried on the next round; it only gives up when the server doesn't send
+ * metadata. Returns a function that stops polling.
+ */
+export function watchIcyMetadata(
+  descriptor: StreamDescriptor,
+  onChange: (nowPlaying: NowPlaying) => void
+): () => void {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | null = null;
+  let lastTitle: string | null = null;
+
+  const poll = async () => {
+    const request = new AbortController();
+    const abort = () => request.abort();
+    controller.signal.addEventListener("abort", abort);
+    try {
+      const title = await readIcyTitle(descriptor, request.signal);
+      if (title === undefined || controller.signal.aborted) return;
+      if (title !== null && title !== lastTitle) {
+        lastTitle = title;
+        const nowPlaying = parseStreamTitle(title);
+        if (nowPlaying) onChange(nowPlaying);
+      }
+      timer = setTimeout(run, POLL_INTERVAL);
+    } finally {
+      controller.signal.removeEventListener("abort", abort);
+      request.abort();
+    }
+  };
+
+  const run = () => {
+    poll().catch((error) => {
+      if (controller.signal.aborted) return;
+      console.warn("ICY metadata unavailable:", error);
+      timer = setTimeout(run, POLL_INTERVAL);
+    });
+  };
+
+  run();
+
+  return () => {
+    controller.abort();
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,80 @@
+import { fromMediaError } from "./errors";
+import type { SeekableRange } from "./types";
+
+declare global {
+  interface Window {
+    ManagedMediaSource?: typeof MediaSource;
+    WebKitMediaSource?: typeof MediaSource;
+  }
+}
+
+export function getMediaSource(): typeof MediaSource | undefined {
+  if (typeof window === "undefined") return undefined;
+  return window.ManagedMediaSource || window.MediaSource || window.WebKitMediaSource;
+}
+
+export function isMseSupported(): boolean {
+  const mediaSource = getMediaSource();
+  return !!mediaSource && typeof mediaSource.isTypeSupported === "function";
+}
+
+export interface MediaSettings {
+  /** 0-100, matching the volume slider. */
+  volume: number;
+  muted: boolean;
+  playbackRate: number;
+}
+
+export function applyMediaSettings(video: HTMLMediaElement, settings: MediaSettings) {
+  applyVolumeSettings(video, settings);
+  video.playbackRate = settings.playbackRate;
+}
+
+/** Volume and mute only; the rate is left alone so live catch-up is not undone. */
+export function applyVolumeSettings(video: HTMLMediaElement, { volume, muted }: Pick<MediaSettings, "volume" | "muted">) {
+  video.volume = volume / 100;
+  video.muted = muted;
+}
+
+export function getSeekableRange(video: HTMLMediaElement): SeekableRange | null {
+  const { seekable } = video;
+  if (seekable.length === 0) return null;
+  return { start: seekable.start(0), end: seekable.end(seekable.length - 1) };
+}
+
+/** Latency presets for low-latency live playback. */
+export const LOW_LATENCY_DEFAULTS = {
+  targetLatency: 3,
+  maxCatchUpRate: 1.25,
+  minCatchUpRate: 0.95,
+};
+
+export function getBufferAhead(video: HTMLVideoElement): number {
+  const { buffered, currentTime } = video;
+  for (let i = 0; i < buffered.length; i++) {
+    if (buffered.start(i) <= currentTime && currentTime <= buffered.end(i)) {
+      return buffered.end(i) - currentTime;
+    }
+  }
+  return 0;
+}
+
+export function getDroppedFrames(video: HTMLVideoElement): number | undefined {
+  return video.getVideoPlaybackQuality?.().droppedVideoFrames;
+}
+
+/** Resolves on `loadedmetadata`, rejects on a media `error`, whichever comes first. */
+export function waitForMetadata(video: HTMLVideoElement): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onLoaded = () => {
+      video.removeEventListener("error", onError);
+      resolve();
+    };
+    const onError = () => {
+      video.removeEventListener("loadedmetadata", onLoaded);
+      reject(fromMediaError(video.error, video.currentSrc));
+    };
+    video.addEventListener("loadedmetadata", onLoaded, { once: true });
+    video.addEventListener("error", onError, { once: true });
+  });
+}
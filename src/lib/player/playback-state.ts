@@ -0,0 +1,116 @@
+import type { PlayerError } from "./errors";
+
+export type PlaybackStatus =
+  | "idle"
+  | "resolving"
+  | "loading"
+  | "playing"
+  | "paused"
+  | "buffering"
+  | "stalled"
+  | "reconnecting"
+  | "error"
+  | "ended";
+
+export interface PlaybackState {
+  status: PlaybackStatus;
+  error: PlayerError | null;
+}
+
+export type PlaybackEvent =
+  | { type: "LOAD" }
+  | { type: "RESOLVED" }
+  | { type: "LOADED" }
+  | { type: "PLAY" }
+  | { type: "PAUSE" }
+  | { type: "WAITING" }
+  | { type: "STALLED" }
+  | { type: "CAN_PLAY"; paused: boolean }
+  /** Only matters after `ended`: a seek back may find the data buffered and never fire `canplay`. */
+  | { type: "SEEKING"; paused: boolean }
+  | { type: "ENDED" }
+  | { type: "ERROR"; error: PlayerError }
+  /** A fatal error is being retried; the error stays attached until the reload settles. */
+  | { type: "RECONNECT"; error: PlayerError }
+  | { type: "RESET" };
+
+export type PlaybackEventType = PlaybackEvent["type"];
+
+const ACTIVE: PlaybackEventType[] = ["PLAY", "PAUSE", "WAITING", "STALLED", "CAN_PLAY", "ENDED"];
+
+/**
+ * Events each status reacts to. Anything else is ignored, so late media events
+ * (e.g. `waiting` after a fatal error) cannot drag the player into a state
+ * that contradicts the one it is in.
+ */
+const ALLOWED: Record<PlaybackStatus, PlaybackEventType[]> = {
+  idle: ["LOAD", "ERROR"],
+  resolving: ["RESOLVED", "ERROR"],
+  loading: ["LOADED", "PLAY", "ERROR"],
+  playing: ACTIVE,
+  paused: ACTIVE,
+  buffering: ACTIVE,
+  stalled: ACTIVE,
+  reconnecting: [],
+  ended: ["PLAY", "WAITING", "CAN_PLAY", "SEEKING"],
+  error: [],
+};
+
+export const initialPlaybackState: PlaybackState = { status: "idle", error: null };
+
+const nextStatus = (state: PlaybackState, event: PlaybackEvent): PlaybackStatus => {
+  switch (event.type) {
+    case "LOAD":
+      return "resolving";
+    case "RESOLVED":
+      return "loading";
+    case "LOADED":
+      return "paused";
+    case "PLAY":
+      return "playing";
+    case "PAUSE":
+      return "paused";
+    case "WAITING":
+      return "buffering";
+    case "STALLED":
+      return state.status === "buffering" ? "stalled" : state.status;
+    case "CAN_PLAY":
+      return event.paused ? "paused" : "playing";
+    case "SEEKING":
+      return event.paused ? "paused" : "buffering";
+    case "ENDED":
+      return "ended";
+    case "ERROR":
+      return "error";
+    case "RECONNECT":
+      return "reconnecting";
+    case "RESET":
+      return "idle";
+  }
+};
+
+export function canTransition(status: PlaybackStatus, type: PlaybackEventType): boolean {
+  return (
+    type === "LOAD" || type === "RESET" || type === "ERROR" || type === "RECONNECT" || ALLOWED[status].includes(type)
+  );
+}
+
+export function playbackReducer(state: PlaybackState, event: PlaybackEvent): PlaybackState {
+  if (!canTransition(state.status, event.type)) return state;
+
+  const status = nextStatus(state, event);
+  const error = event.type === "ERROR" || event.type === "RECONNECT" ? event.error : null;
+  if (status === state.status && error === state.error) return state;
+
+  return { status, error };
+}
+
+export const isLoadingStatus = (status: PlaybackStatus) =>
+  status === "resolving" ||
+  status === "loading" ||
+  status === "buffering" ||
+  status === "stalled" ||
+  status === "reconnecting";
+
+export const isPlayingStatus = (status: PlaybackStatus) =>
+  status === "playing" || status === "buffering" || status === "stalled";
@@ -0,0 +1,51 @@
+const PREFERRED_AUDIO_LANGUAGE_KEY = "streamplay:preferred-audio-language";
+const WORKING_SOURCES_KEY = "streamplay:working-sources";
+const MAX_WORKING_SOURCES = 200;
+
+const readItem = (key: string) => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeItem = (key: string, value: string | null) => {
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+  } catch {
+    // Storage may be unavailable (private mode, quota); preferences are best effort.
+  }
+};
+
+export const getPreferredAudioLanguage = () => readItem(PREFERRED_AUDIO_LANGUAGE_KEY) ?? undefined;
+
+export const setPreferredAudioLanguage = (language: string | null) =>
+  writeItem(PREFERRED_AUDIO_LANGUAGE_KEY, language);
+
+const readWorkingSources = (): Record<string, string> => {
+  try {
+    const parsed = JSON.parse(readItem(WORKING_SOURCES_KEY) ?? "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/** The alternate that last played for a stream with backups, keyed by its primary URL. */
+export const getWorkingSource = (primarySrc: string) => readWorkingSources()[primarySrc];
+
+export const setWorkingSource = (primarySrc: string, src: string) => {
+  const sources = readWorkingSources();
+  if (sources[primarySrc] === src) return;
+  delete sources[primarySrc];
+  sources[primarySrc] = src;
+  // Keys keep insertion order, so the oldest entries are dropped first.
+  const keys = Object.keys(sources);
+  keys.slice(0, Math.max(0, keys.length - MAX_WORKING_SOURCES)).forEach((key) => delete sources[key]);
+  writeItem(WORKING_SOURCES_KEY, JSON.stringify(sources));
+};
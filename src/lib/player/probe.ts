@@ -0,0 +1,142 @@
+import type { StreamDescriptor } from "./types";
+
+/** What a stream URL actually serves, as far as its headers and first bytes tell. */
+export type StreamContainer = "hls" | "dash" | "mp4" | "webm" | "mpegts" | "flv" | "audio";
+
+export interface ProbeResult {
+  container: StreamContainer;
+  contentType: string | null;
+  /** Whether the first bytes or only the `Content-Type` identified the container. */
+  detectedBy: "bytes" | "content-type";
+}
+
+const PROBE_TIMEOUT = 4000;
+/** Two TS packets, so the 0x47 sync byte can be checked twice. */
+const PROBE_BYTES = 376;
+const TS_PACKET_SIZE = 188;
+const MAX_CACHED_PROBES = 100;
+
+const CONTENT_TYPES: [RegExp, StreamContainer][] = [
+  [/mpegurl/, "hls"],
+  [/dash\+xml/, "dash"],
+  [/mp2t/, "mpegts"],
+  [/x-flv/, "flv"],
+  [/^video\/(mp4|quicktime)/, "mp4"],
+  [/^video\/webm/, "webm"],
+  [/^audio\//, "audio"],
+];
+
+/** Probes that identified the stream, or are still running, keyed by URL and request headers. */
+const probeCache = new Map<string, Promise<ProbeResult | null>>();
+
+const startsWith = (bytes: Uint8Array, ascii: string, offset = 0) =>
+  bytes.length >= offset + ascii.length && [...ascii].every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+function sniffContainer(bytes: Uint8Array): StreamContainer | null {
+  // A lone 0x47 is just as likely to be a "G" in some text response.
+  if (bytes.length > TS_PACKET_SIZE && bytes[0] === 0x47 && bytes[TS_PACKET_SIZE] === 0x47) {
+    return "mpegts";
+  }
+  if (startsWith(bytes, "FLV")) return "flv";
+  if (startsWith(bytes, "ID3")) return "audio";
+  if (startsWith(bytes, "ftyp", 4)) return "mp4";
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return "webm";
+
+  // Playlists and manifests are text; skip a BOM and leading whitespace.
+  const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, "").trimStart();
+  if (text.startsWith("#EXTM3U")) return "hls";
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<MPD[\s>]/.test(text)) return "dash";
+  return null;
+}
+
+function containerFromContentType(contentType: string | null): StreamContainer | null {
+  if (!contentType) return null;
+  const mime = contentType.split(";")[0].trim().toLowerCase();
+  return CONTENT_TYPES.find(([pattern]) => pattern.test(mime))?.[1] ?? null;
+}
+
+/** Reads at most `PROBE_BYTES`, so servers that ignore `Range` on a live stream are not drained. */
+async function readHead(response: Response): Promise<Uint8Array> {
+  if (!response.body) {
+    return new Uint8Array(await response.arrayBuffer()).subarray(0, PROBE_BYTES);
+  }
+
+  const reader = response.body.getReader();
+  const head = new Uint8Array(PROBE_BYTES);
+  let length = 0;
+  try {
+    while (length < PROBE_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, PROBE_BYTES - length);
+      head.set(chunk, length);
+      length += chunk.length;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return head.subarray(0, length);
+}
+
+async function runProbe({ url, headers }: StreamDescriptor): Promise<ProbeResult | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+  const request = (method: "GET" | "HEAD", extra: Record<string, string> = {}) =>
+    fetch(url, { method, headers: { ...headers, ...extra }, signal: controller.signal });
+
+  try {
+    let response = await request("GET", { Range: `bytes=0-${PROBE_BYTES - 1}` });
+    if (response.status === 405 || response.status === 416) {
+      response = await request("HEAD");
+    }
+    if (!response.ok) {
+      console.warn(`Stream probe got HTTP ${response.status} for`, url);
+      return null;
+    }
+
+    const contentType = response.headers.get("Content-Type");
+    const bytes = response.type === "opaque" || response.status === 204 ? null : await readHead(response);
+    const sniffed = bytes && bytes.length > 0 ? sniffContainer(bytes) : null;
+    if (sniffed) {
+      return { container: sniffed, contentType, detectedBy: "bytes" };
+    }
+
+    const declared = containerFromContentType(contentType);
+    return declared ? { container: declared, contentType, detectedBy: "content-type" } : null;
+  } catch (error) {
+    // Usually CORS, which also hides the response from the probe.
+    console.warn("Stream probe failed for", url, error);
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/** Auth or Referer headers can change what the server answers. */
+const getCacheKey = ({ url, headers }: StreamDescriptor) =>
+  JSON.stringify([url, Object.entries(headers).sort(([a], [b]) => a.localeCompare(b))]);
+
+/**
+ * Works out what a URL serves from a ranged GET (or HEAD when that is refused):
+ * first from its leading bytes, then from `Content-Type`. Resolves to null when the
+ * server can't be reached or doesn't say, so callers can fall back to guessing
+ * from the URL. Results are cached per URL and headers for the session; failures
+ * are not, since they are often a server that was briefly down.
+ */
+export function probeStream(descriptor: StreamDescriptor): Promise<ProbeResult | null> {
+  const key = getCacheKey(descriptor);
+  const cached = probeCache.get(key);
+  if (cached) return cached;
+
+  if (probeCache.size >= MAX_CACHED_PROBES) {
+    probeCache.delete(probeCache.keys().next().value);
+  }
+  const probe = runProbe(descriptor).then((result) => {
+    if (!result && probeCache.get(key) === probe) {
+      probeCache.delete(key);
+    }
+    return result;
+  });
+  probeCache.set(key, probe);
+  return probe;
+}
@@ -0,0 +1,41 @@
+import type { PlayerError } from "./errors";
+
+export interface RecoveryPolicy {
+  /** Reloads attempted after a recoverable fatal error before giving up. */
+  maxRetries: number;
+  /** Delay before the first retry, in milliseconds; doubled for each attempt after. */
+  baseDelay: number;
+  maxDelay: number;
+  /** Random spread applied to each delay, as a fraction of it (0-1). */
+  jitter: number;
+  /**
+   * In-place recoveries an engine may try for media (decode) errors before
+   * reporting them as fatal. For hls.js the second one also swaps the audio codec.
+   */
+  mediaRecoveryAttempts: number;
+}
+
+export const DEFAULT_RECOVERY_POLICY: RecoveryPolicy = {
+  maxRetries: 5,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: 0.3,
+  mediaRecoveryAttempts: 2,
+};
+
+export function resolveRecoveryPolicy(overrides?: Partial<RecoveryPolicy>): RecoveryPolicy {
+  return { ...DEFAULT_RECOVERY_POLICY, ...overrides };
+}
+
+/** Exponential backoff with jitter for the given 1-based attempt. */
+export function getRetryDelay(attempt: number, policy: RecoveryPolicy): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** Math.max(0, attempt - 1));
+  const spread = delay * policy.jitter;
+  return Math.max(0, Math.round(delay - spread + Math.random() * spread * 2));
+}
+
+export function shouldRetry(error: PlayerError, attempt: number, policy: RecoveryPolicy): boolean {
+  return error.recoverable && attempt <= policy.maxRetries;
+}
+
+export const isOffline = () => typeof navigator !== "undefined" && navigator.onLine === false;
@@ -0,0 +1,190 @@
+import { isLicenseUrl, parseClearKeys, parseDrmScheme } from "./drm";
+import { PlayerError } from "./errors";
+import type { DrmInfo, StreamDescriptor, StreamFormat, StreamHints } from "./types";
+
+/**
+ * Parses the Kodi-style pipe syntax used by IPTV sources:
+ *
+ *   https://host/stream.m3u8|User-Agent=VLC&Referer=https%3A%2F%2Fhost%2F
+ *   https://host/manifest.mpd|drmScheme=clearkey&drmLicense=kid1:key1,kid2:key2
+ *   https://host/manifest.mpd|drmScheme=widevine&drmLicense=https%3A%2F%2Flicense&drmHeader.X-Token=abc
+ *
+ * Values are URL-encoded, but `+` is kept as is (see `parsePipeOptions`). Reserved keys configure DRM (`drmScheme`,
+ * `drmLicense`, `drmServerCertificate`, `drmVideoRobustness`,
+ * `drmAudioRobustness`, `drmHeader.<Name>` for license request headers) and
+ * hints (`type`, `lowLatency`, `targetLatency`); every other key is sent as an HTTP header on manifest, segment and
+ * license requests. Throws when the DRM scheme is not recognised.
+ */
+export function parseStreamUrl(input: string): StreamDescriptor {
+  const trimmed = input.trim();
+  const pipeIndex = trimmed.indexOf("|");
+
+  if (pipeIndex === -1) {
+    return { url: trimmed, headers: {}, drm: null, hints: {} };
+  }
+
+  let url = trimmed.slice(0, pipeIndex);
+  if (url.endsWith("?")) {
+    url = url.slice(0, -1);
+  }
+
+  const headers: Record<string, string> = {};
+  const licenseHeaders: Record<string, string> = {};
+  const hints: StreamHints = {};
+  let drmScheme: string | null = null;
+  let drmLicense: string | null = null;
+  let serverCertificateUrl: string | undefined;
+  let videoRobustness: string | undefined;
+  let audioRobustness: string | undefined;
+
+  for (const [rawKey, value] of parsePipeOptions(trimmed.slice(pipeIndex + 1))) {
+    const key = rawKey.trim();
+    if (!key) continue;
+
+    if (key.toLowerCase().startsWith(DRM_HEADER_PREFIX)) {
+      licenseHeaders[key.slice(DRM_HEADER_PREFIX.length)] = value;
+      continue;
+    }
+
+    switch (key.toLowerCase()) {
+      case "drmscheme":
+        drmScheme = value;
+        break;
+      case "drmlicense":
+      case "drmlicenseurl":
+        drmLicense = value;
+        break;
+      case "drmservercertificate":
+        serverCertificateUrl = value;
+        break;
+      case "drmvideorobustness":
+        videoRobustness = value;
+        break;
+      case "drmaudiorobustness":
+        audioRobustness = value;
+        break;
+      case "type":
+      case "streamtype":
+      case "manifest_type":
+        hints.format = parseFormatHint(value) ?? hints.format;
+        break;
+      case "lowlatency":
+      case "ll":
+        hints.lowLatency = value === "" || /^(1|true|yes|on)$/i.test(value);
+        break;
+      case "targetlatency": {
+        const seconds = Number(value);
+        if (seconds > 0) hints.targetLatency = seconds;
+        break;
+      }
+      default:
+        headers[normalizeHeaderName(key)] = value;
+        break;
+    }
+  }
+
+  let drm: DrmInfo | null = null;
+  if (drmScheme && drmLicense) {
+    const scheme = parseDrmScheme(drmScheme);
+    if (!scheme) {
+      throw new PlayerError("drm", `Unsupported DRM scheme "${drmScheme}"`);
+    }
+    drm = {
+      scheme,
+      license: drmLicense,
+      clearKeys: scheme === "clearkey" && !isLicenseUrl(drmLicense) ? parseClearKeys(drmLicense) : undefined,
+      licenseHeaders,
+      serverCertificateUrl,
+      videoRobustness,
+      audioRobustness,
+    };
+  }
+
+  return { url, headers, drm, hints };
+}
+
+const DRM_HEADER_PREFIX = "drmheader.";
+
+const HEADER_NAMES: Record<string, string> = {
+  "user-agent": "User-Agent",
+  useragent: "User-Agent",
+  referer: "Referer",
+  referrer: "Referer",
+  origin: "Origin",
+  cookie: "Cookie",
+};
+
+function normalizeHeaderName(key: string) {
+  return HEADER_NAMES[key.toLowerCase()] ?? key;
+}
+
+function parseFormatHint(value: string): StreamFormat | undefined {
+  switch (value.toLowerCase()) {
+    case "hls":
+    case "m3u8":
+      return "hls";
+    case "dash":
+    case "mpd":
+    case "mpeg-dash":
+      return "dash";
+    case "mp4":
+    case "webm":
+    case "audio":
+    case "native":
+      return "native";
+    case "ts":
+    case "mpegts":
+    case "mpeg-ts":
+      return "mpegts";
+    case "flv":
+      return "flv";
+    case "webrtc":
+    case "whep":
+      return "webrtc";
+    default:
+      return undefined;
+  }
+}
+
+const decodePipeValue = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Splits a `key=value&key=value` suffix. Unlike `URLSearchParams`, a `+` is not
+ * read as a space: base64 ClearKey keys and signed license URLs are full of them.
+ */
+export function parsePipeOptions(suffix: string): [string, string][] {
+  return suffix
+    .split("&")
+    .filter(Boolean)
+    .map((pair) => {
+      const separator = pair.indexOf("=");
+      return separator === -1
+        ? [decodePipeValue(pair), ""]
+        : [decodePipeValue(pair.slice(0, separator)), decodePipeValue(pair.slice(separator + 1))];
+    });
+}
+
+/** The inverse of `parsePipeOptions`. */
+export const formatPipeOptions = (options: Iterable<[string, string]>) =>
+  Array.from(options, ([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join("&");
+
+/**
+ * Applies descriptor headers to an XHR. Browsers refuse some headers
+ * (`Cookie`, `Referer`, `Origin`, sometimes `User-Agent`); those are skipped
+ * rather than failing the request.
+ */
+export function applyRequestHeaders(xhr: XMLHttpRequest, headers: Record<string, string>) {
+  for (const [name, value] of Object.entries(headers)) {
+    try {
+      xhr.setRequestHeader(name, value);
+    } catch (error) {
+      console.warn(`Unable to set request header ${name}:`, error);
+    }
+  }
+}
@@ -0,0 +1,112 @@
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+
+const parseTimestamp = (value: string): number | null => {
+  const match = TIMESTAMP.exec(value);
+  if (!match) return null;
+  const [, hours = "0", minutes, seconds, millis] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis.padEnd(3, "0")) / 1000;
+};
+
+/**
+ * Parses WebVTT or SubRip text into plain cues. Both formats share the
+ * `start --> end` timing line, so one block-based parser handles them;
+ * headers, NOTE/STYLE/REGION blocks and SRT counters are skipped.
+ */
+export function parseSubtitles(text: string): SubtitleCue[] {
+  const blocks = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n{2,}/);
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) continue;
+
+    const [startPart, endPart] = lines[timingIndex].split("-->");
+    const start = parseTimestamp(startPart);
+    const end = parseTimestamp(endPart ?? "");
+    const cueText = lines.slice(timingIndex + 1).join("\n").trim();
+
+    if (start === null || end === null || !cueText) continue;
+    cues.push({ start, end, text: cueText });
+  }
+
+  return cues;
+}
+
+/** Fetches or reads a `.vtt`/`.srt` file and parses it. */
+export async function loadSubtitles(input: string | File): Promise<SubtitleCue[]> {
+  let text: string;
+
+  if (typeof input === "string") {
+    const response = await fetch(input);
+    if (!response.ok) {
+      throw new Error(`Failed to load subtitles (HTTP ${response.status})`);
+    }
+    text = await response.text();
+  } else {
+    text = await input.text();
+  }
+
+  const cues = parseSubtitles(text);
+  if (cues.length === 0) {
+    throw new Error("No subtitle cues were found in the file");
+  }
+  return cues;
+}
+
+const ownTracks = new WeakSet<TextTrack>();
+const cueTracks = new WeakMap<HTMLMediaElement, Map<string, TextTrack>>();
+
+/**
+ * Returns a hidden text track owned by the player. `addTextTrack` tracks can
+ * never be removed from a media element, so they are pooled per key and
+ * reused across engines instead of piling up on every load.
+ */
+export function acquireCueTrack(video: HTMLMediaElement, key: string, label = key): TextTrack {
+  let tracks = cueTracks.get(video);
+  if (!tracks) {
+    tracks = new Map();
+    cueTracks.set(video, tracks);
+  }
+
+  let track = tracks.get(key);
+  if (!track) {
+    track = video.addTextTrack("subtitles", label);
+    ownTracks.add(track);
+    tracks.set(key, track);
+  }
+  track.mode = "hidden";
+  return track;
+}
+
+export function clearCueTrack(track: TextTrack) {
+  const cues = track.cues ? [...track.cues] : [];
+  cues.forEach((cue) => track.removeCue(cue));
+  track.mode = "disabled";
+}
+
+export function replaceCues(track: TextTrack, cues: SubtitleCue[]) {
+  clearCueTrack(track);
+  track.mode = "hidden";
+  cues.forEach(({ start, end, text }) => track.addCue(new VTTCue(start, end, text)));
+}
+
+/** True for tracks the player created itself, as opposed to tracks from the media or engine. */
+export const isOwnCueTrack = (track: TextTrack) => ownTracks.has(track);
+
+/** Cue text without WebVTT markup (`<i>`, `<c.class>`, `<v Speaker>`, timestamps). */
+export function getCueText(cue: TextTrackCue): string {
+  const text = (cue as VTTCue).text ?? "";
+  return text
+    .replace(/<[^>]+>/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ");
+}
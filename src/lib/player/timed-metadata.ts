@@ -0,0 +1,73 @@
+import type { NowPlaying } from "./types";
+
+/** An ID3 frame as hls.js and Safari attach it to metadata cues. */
+interface Id3Frame {
+  key: string;
+  info?: string;
+  data?: unknown;
+}
+
+/**
+ * Splits an ICY-style `Artist - Title` string. Anything without the separator
+ * is taken as the title.
+ */
+export function parseStreamTitle(value: string): NowPlaying | null {
+  const text = value.trim();
+  if (!text) return null;
+  const separator = text.indexOf(" - ");
+  if (separator <= 0) return { title: text };
+  return { artist: text.slice(0, separator).trim(), title: text.slice(separator + 3).trim() };
+}
+
+const isId3Frame = (value: unknown): value is Id3Frame =>
+  typeof value === "object" && value !== null && typeof (value as Id3Frame).key === "string";
+
+/** Reads title, artist and album from ID3 text frames (`TIT2`, `TPE1`, `TALB`, `TXXX:StreamTitle`). */
+export function fromId3Frames(frames: Id3Frame[]): NowPlaying | null {
+  const nowPlaying: NowPlaying = {};
+  for (const { key, info, data } of frames) {
+    if (typeof data !== "string" || !data.trim()) continue;
+    if (key === "TIT2") nowPlaying.title = data.trim();
+    else if (key === "TPE1") nowPlaying.artist = data.trim();
+    else if (key === "TALB") nowPlaying.album = data.trim();
+    else if (key === "TXXX" && info?.toLowerCase() === "streamtitle") {
+      Object.assign(nowPlaying, parseStreamTitle(data));
+    }
+  }
+  return nowPlaying.title || nowPlaying.artist ? nowPlaying : null;
+}
+
+/**
+ * Follows the ID3 metadata tracks that hls.js (and Safari's native HLS) add to
+ * the element, reporting the track info of whichever cues are active.
+ */
+export function watchTimedMetadata(video: HTMLVideoElement, onChange: (nowPlaying: NowPlaying) => void): () => void {
+  const watched = new Set<TextTrack>();
+
+  const onCueChange = (event: Event) => {
+    const track = event.target as TextTrack;
+    const frames = [...(track.activeCues ?? [])]
+      .map((cue) => (cue as TextTrackCue & { value?: unknown }).value)
+      .filter(isId3Frame);
+    const nowPlaying = fromId3Frames(frames);
+    if (nowPlaying) onChange(nowPlaying);
+  };
+
+  const watch = (track: TextTrack) => {
+    if (track.kind !== "metadata" || watched.has(track)) return;
+    // Disabled tracks don't fire `cuechange`.
+    if (track.mode === "disabled") track.mode = "hidden";
+    track.addEventListener("cuechange", onCueChange);
+    watched.add(track);
+  };
+  const onAddTrack = (event: TrackEvent) => watch(event.track as TextTrack);
+
+  [...video.textTracks].forEach(watch);
+  video.textTracks.addEventListener("addtrack", onAddTrack);
+
+  return () => {
+    video.textTracks.removeEventListener("addtrack", onAddTrack);
+    watched.forEach((track) => track.removeEventListener("cuechange", onCueChange));
+    watched.clear();
+  };
+}
@@ -0,0 +1,163 @@
+import type { PlayerError } from "./errors";
+import type { RecoveryPolicy } from "./recovery";
+
+export type StreamFormat = "hls" | "dash" | "native" | "mpegts" | "flv" | "webrtc";
+
+export type DrmScheme = "clearkey" | "widevine" | "playready";
+
+export interface DrmInfo {
+  scheme: DrmScheme;
+  /** License server URL, or the raw key material for ClearKey. */
+  license: string;
+  /** Hex `kid -> key` map for ClearKey without a license server. */
+  clearKeys?: Record<string, string>;
+  licenseHeaders: Record<string, string>;
+  serverCertificateUrl?: string;
+  videoRobustness?: string;
+  audioRobustness?: string;
+}
+
+export interface StreamHints {
+  format?: StreamFormat;
+  /** Enables LL-HLS/LL-DASH handling and live catch-up. */
+  lowLatency?: boolean;
+  /** Target live latency in seconds for catch-up. */
+  targetLatency?: number;
+}
+
+export interface StreamDescriptor {
+  url: string;
+  /** Sent with manifest, segment and license requests where the engine allows it. */
+  headers: Record<string, string>;
+  drm: DrmInfo | null;
+  hints: StreamHints;
+}
+
+export interface EngineSource extends StreamDescriptor {
+  format: StreamFormat;
+}
+
+export interface VideoTrack {
+  id: string;
+  width?: number;
+  height?: number;
+  bitrate?: number;
+  codecs?: string;
+  active: boolean;
+}
+
+export type AudioRole = "main" | "commentary" | "description" | "alternate";
+
+export interface AudioTrack {
+  id: string;
+  language: string;
+  label?: string;
+  role: AudioRole;
+  channels?: number;
+  active: boolean;
+}
+
+export interface SubtitleTrack {
+  id: string;
+  language: string;
+  label?: string;
+  kind: "subtitles" | "captions";
+  /** `manifest` for WebVTT/TTML/IMSC renditions, `embedded` for CEA-608/708 in the video. */
+  source: "manifest" | "embedded";
+  active: boolean;
+}
+
+/** Track info carried in the stream, for radio and other audio-only streams. */
+export interface NowPlaying {
+  title?: string;
+  artist?: string;
+  album?: string;
+}
+
+export interface SeekableRange {
+  start: number;
+  end: number;
+}
+
+export interface PlaybackStats {
+  engine: string;
+  width?: number;
+  height?: number;
+  bitrate?: number;
+  bandwidthEstimate?: number;
+  droppedFrames?: number;
+  bufferAhead?: number;
+  /** Seconds behind the live edge, for live streams. */
+  latency?: number;
+  targetLatency?: number;
+  /** WebRTC only: round-trip time to the server, in seconds. */
+  roundTripTime?: number;
+  /** WebRTC only: packet arrival jitter, in seconds. */
+  jitter?: number;
+  /** WebRTC only: share of packets lost since the session started (0-1). */
+  packetLoss?: number;
+}
+
+export interface EngineError {
+  error: PlayerError;
+  /** Playback has stopped and the engine will not recover on its own. */
+  fatal: boolean;
+}
+
+export interface EngineEventMap {
+  error: EngineError;
+  tracksChanged: VideoTrack[];
+  audioTracksChanged: AudioTrack[];
+  textTracksChanged: SubtitleTrack[];
+}
+
+export interface EngineLoadOptions {
+  preferredAudioLanguage?: string;
+  recovery?: RecoveryPolicy;
+}
+
+export type EngineEventName = keyof EngineEventMap;
+
+export type EngineEventListener<K extends EngineEventName> = (payload: EngineEventMap[K]) => void;
+
+/**
+ * A playback engine drives one `<video>` element for the lifetime of a single
+ * source. `load` resolves once the media is ready to play and rejects (with a
+ * `PlayerError` where the cause is known) when the stream cannot be opened;
+ * errors after that are reported through `error`.
+ */
+export interface PlaybackEngine {
+  readonly name: string;
+  load(source: EngineSource, options?: EngineLoadOptions): Promise<void>;
+  destroy(): Promise<void>;
+  getVideoTracks(): VideoTrack[];
+  /** Locks playback to one rendition, or hands control back to ABR with `"auto"`. */
+  selectVideoTrack(id: string | "auto"): void;
+  isAutoQuality(): boolean;
+  getAudioTracks(): AudioTrack[];
+  selectAudioTrack(id: string): void;
+  getTextTracks(): SubtitleTrack[];
+  /** Selects a subtitle or caption track, or turns text off with `null`. */
+  selectTextTrack(id: string | null): void;
+  /**
+   * The hidden native track carrying cues for the selected text track, so the
+   * player can render them in its own overlay.
+   */
+  getCueTrack(): TextTrack | null;
+  isLive(): boolean;
+  /** The DVR window for live streams, or the whole timeline for VOD. */
+  getSeekableRange(): SeekableRange | null;
+  /** Where "Go Live" should seek to; may sit behind the window end by the target latency. */
+  getLiveEdge(): number | null;
+  getStats(): PlaybackStats;
+  on<K extends EngineEventName>(event: K, listener: EngineEventListener<K>): () => void;
+}
+
+export interface EngineDefinition {
+  name: string;
+  formats: StreamFormat[];
+  /** Higher priority engines are tried first when several support a format. */
+  priority: number;
+  supports(format: StreamFormat, video: HTMLVideoElement): boolean;
+  create(video: HTMLVideoElement): Promise<PlaybackEngine>;
+}
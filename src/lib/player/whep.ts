@@ -0,0 +1,79 @@
+import { PlayerError, classifyRequestFailure, describeFailure } from "./errors";
+
+const WHEP_SCHEME = /^whep(\+https?)?:\/\//i;
+
+export const isWhepUrl = (url: string) => WHEP_SCHEME.test(url.trim());
+
+/**
+ * The HTTP endpoint behind a `whep://` URL. `whep://` is fetched over HTTPS;
+ * `whep+http://` allows plain HTTP for local servers. Other URLs are returned
+ * as they are, for WHEP endpoints given with `type=webrtc`.
+ */
+export function toWhepEndpoint(url: string): string {
+  const match = url.trim().match(WHEP_SCHEME);
+  if (!match) return url;
+  const protocol = match[1] ? match[1].slice(1).toLowerCase() : "https";
+  return `${protocol}://${url.trim().slice(match[0].length)}`;
+}
+
+export interface WhepSession {
+  answer: string;
+  /** Where to send the `DELETE` that ends the session, when the server gave one. */
+  resourceUrl: string | null;
+}
+
+/**
+ * Posts the SDP offer to a WHEP endpoint and returns the server's answer. If
+ * the answer can't be read once the server has created the session (e.g. the
+ * request was aborted), the session is ended before rethrowing.
+ */
+export async function requestWhepAnswer(
+  endpoint: string,
+  offer: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<WhepSession> {
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/sdp", Accept: "application/sdp" },
+      body: offer,
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    const category = classifyRequestFailure(undefined);
+    throw new PlayerError(category, describeFailure(category), {
+      code: "WHEP_REQUEST_FAILED",
+      engine: "whep",
+      url: endpoint,
+      cause: error,
+    });
+  }
+
+  if (!response.ok) {
+    throw new PlayerError("network", `The WHEP endpoint rejected the offer with HTTP ${response.status}`, {
+      code: "WHEP_OFFER_REJECTED",
+      engine: "whep",
+      status: response.status,
+      url: endpoint,
+    });
+  }
+
+  const location = response.headers.get("Location");
+  const resourceUrl = location ? new URL(location, endpoint).href : null;
+  try {
+    return { answer: await response.text(), resourceUrl };
+  } catch (error) {
+    if (resourceUrl) endWhepSession(resourceUrl, headers);
+    throw error;
+  }
+}
+
+/** Tells the server the session is over. Failures only mean it times out on its own. */
+export function endWhepSession(resourceUrl: string, headers: Record<string, string>) {
+  fetch(resourceUrl, { method: "DELETE", headers, keepalive: true }).catch((error) => {
+    console.warn("Failed to end WHEP session:", error);
+  });
+}
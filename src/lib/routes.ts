@@ -0,0 +1,100 @@
+import type { StreamAlternate, StreamSource, StreamType } from "@/lib/iptv/types";
+import { probeStream, type StreamContainer } from "@/lib/player/probe";
+import { parseStreamUrl } from "@/lib/player/stream-descriptor";
+import { isWhepUrl } from "@/lib/player/whep";
+
+export const STREAM_TYPES: StreamType[] = ["hls", "dash", "mp4", "audio", "ts", "flv", "webrtc"];
+
+export const watchPath = (channelId: string) => `/watch/${encodeURIComponent(channelId)}`;
+
+export const parseStreamType = (value: string | null): StreamType | undefined => {
+  const type = value?.toLowerCase() as StreamType;
+  return STREAM_TYPES.includes(type) ? type : undefined;
+};
+
+/**
+ * Writes backups as repeated `alt` params. `altType` and `altLabel` pair up
+ * with them by position and are left out when no alternate has one.
+ */
+export function appendAlternateParams(params: URLSearchParams, alternates: StreamAlternate[] = []) {
+  alternates.forEach(({ src }) => params.append("alt", src));
+  if (alternates.some(({ type }) => type)) {
+    alternates.forEach(({ type }) => params.append("altType", type ?? ""));
+  }
+  if (alternates.some(({ label }) => label)) {
+    alternates.forEach(({ label }) => params.append("altLabel", label ?? ""));
+  }
+}
+
+/** Reads backups written by `appendAlternateParams`; undefined when there are none. */
+export function parseAlternateParams(params: URLSearchParams): StreamAlternate[] | undefined {
+  const types = params.getAll("altType");
+  const labels = params.getAll("altLabel");
+  const alternates = params.getAll("alt").flatMap((value, index): StreamAlternate[] => {
+    const src = value.trim();
+    if (!src) return [];
+    return [{ src, type: parseStreamType(types[index] ?? null), label: labels[index] || undefined }];
+  });
+  return alternates.length > 0 ? alternates : undefined;
+}
+
+/** Deep link that carries the whole stream in the query string, for streams outside the library. */
+export function playPath(stream: Pick<StreamSource, "src" | "type" | "name" | "alternates">): string {
+  const params = new URLSearchParams({ src: stream.src });
+  if (stream.type) params.set("type", stream.type);
+  if (stream.name) params.set("name", stream.name);
+  appendAlternateParams(params, stream.alternates);
+  return `/play?${params}`;
+}
+
+/** Prefers the short `/watch/:id` link for streams that have a library id. */
+export const streamPath = (stream: StreamSource) => (stream.id ? watchPath(stream.id) : playPath(stream));
+
+/** A guess from the URL alone, for display. Never stored as a source's `type`. */
+export function inferStreamType(url: string): StreamType | undefined {
+  const path = url.split(/[?#|]/)[0].toLowerCase();
+  if (isWhepUrl(url)) return "webrtc";
+  if (url.includes(".m3u8")) return "hls";
+  if (url.includes(".mpd")) return "dash";
+  if (path.endsWith(".ts")) return "ts";
+  if (path.endsWith(".flv")) return "flv";
+  if (/\.(mp4|m4v|webm|mov)$/.test(path)) return "mp4";
+  if (/\.(mp3|aac|m4a|ogg|oga|opus)$/.test(path)) return "audio";
+  return undefined;
+}
+
+/** The badge text for a stream: its stated type, or failing that a guess from the URL. */
+export const streamTypeLabel = (stream: Pick<StreamSource, "src" | "type">) =>
+  (stream.type ?? inferStreamType(stream.src))?.toUpperCase();
+
+const TYPE_BY_CONTAINER: Record<StreamContainer, StreamType> = {
+  hls: "hls",
+  dash: "dash",
+  mp4: "mp4",
+  webm: "mp4",
+  audio: "audio",
+  mpegts: "ts",
+  flv: "flv",
+};
+
+/** What the server says it serves, or undefined when the probe can't tell. */
+export async function resolveStreamType(src: string): Promise<StreamType | undefined> {
+  const descriptor = parseStreamUrl(src);
+  if (isWhepUrl(descriptor.url)) return "webrtc";
+  const probe = await probeStream(descriptor);
+  return probe ? TYPE_BY_CONTAINER[probe.container] : undefined;
+}
+
+/** Reads a stream from `/play?src=&type=&name=&alt=`; returns null without a `src`. */
+export function parsePlayParams(params: URLSearchParams): StreamSource | null {
+  const src = params.get("src")?.trim();
+  if (!src) return null;
+
+  return {
+    name: params.get("name") || "Shared Stream",
+    src,
+    type: parseStreamType(params.get("type")),
+    description: "Stream from a shared link",
+    alternates: parseAlternateParams(params),
+  };
+}
@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { StreamPlayer, type PlayerTimeUpdate, type StreamPlayerHandle } from "@/components/StreamPlayer";
+import {
+  createEventMessage,
+  createResponseMessage,
+  getAllowedOrigins,
+  getParentOrigin,
+  isOriginAllowed,
+  parseEmbedCommand,
+  type EmbedEvent,
+  type EmbedLoadSource,
+} from "@/lib/embed/protocol";
+import type { PlayerError } from "@/lib/player/errors";
+import type { PlaybackStatus } from "@/lib/player/playback-state";
+import { parseAlternateParams, parseStreamType } from "@/lib/routes";
+
+const TIME_UPDATE_INTERVAL = 250;
+
+const parseFlag = (value: string | null, fallback: boolean) =>
+  value === null ? fallback : value === "" || /^(1|true|yes)$/i.test(value);
+
+const parseSeconds = (value: string | null) => {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+};
+
+const readSourceFromParams = (params: URLSearchParams): EmbedLoadSource | null => {
+  const src = params.get("src")?.trim();
+  if (!src) return null;
+  return {
+    src,
+    type: parseStreamType(params.get("type")),
+    alternates: parseAlternateParams(params),
+    poster: params.get("poster") || undefined,
+    startTime: parseSeconds(params.get("start") ?? params.get("t")),
+    autoplay: parseFlag(params.get("autoplay"), true),
+  };
+};
+
+/**
+ * Chrome-less player for iframes: `/embed?src=&type=&alt=&autoplay=&muted=&start=&poster=&controls=`.
+ * Parent pages on an allowed origin control it through the protocol in
+ * `@/lib/embed/protocol`.
+ */
+const Embed = () => {
+  const [searchParams] = useSearchParams();
+  const initialSource = useMemo(() => readSourceFromParams(searchParams), [searchParams]);
+  const [source, setSource] = useState(initialSource);
+  const [muted] = useState(() => parseFlag(searchParams.get("muted"), false));
+  const [controls] = useState(() => parseFlag(searchParams.get("controls"), true));
+  const playerRef = useRef<StreamPlayerHandle>(null);
+  const allowedOrigins = useMemo(() => getAllowedOrigins(), []);
+  const parentOriginRef = useRef<string | null>(null);
+  const lastTimeUpdateRef = useRef(0);
+
+  useEffect(() => setSource(initialSource), [initialSource]);
+
+  const postEvent = useCallback((event: EmbedEvent) => {
+    const origin = parentOriginRef.current;
+    if (window.parent === window || !origin) return;
+    window.parent.postMessage(createEventMessage(event), origin);
+  }, []);
+
+  const initialSrcRef = useRef(initialSource?.src ?? null);
+  useEffect(() => {
+    const parentOrigin = getParentOrigin();
+    if (parentOrigin && isOriginAllowed(parentOrigin, allowedOrigins)) {
+      parentOriginRef.current = parentOrigin;
+    }
+    postEvent({ event: "ready", src: initialSrcRef.current });
+  }, [allowedOrigins, postEvent]);
+
+  useEffect(() => {
+    const handleMessage = async (event: MessageEvent) => {
+      if (event.source !== window.parent || !isOriginAllowed(event.origin, allowedOrigins)) return;
+
+      let message: ReturnType<typeof parseEmbedCommand>;
+      try {
+        message = parseEmbedCommand(event.data);
+      } catch (error) {
+        const id = typeof event.data?.id === "string" ? event.data.id : null;
+        if (id) {
+          window.parent.postMessage(createResponseMessage(id, (error as Error).message), event.origin);
+        }
+        return;
+      }
+      if (!message) return;
+
+      parentOriginRef.current = event.origin;
+      const player = playerRef.current;
+      let failure: string | undefined;
+
+      try {
+        // The player is only mounted once there is a source; `load` provides one.
+        if (!player && message.command !== "load") {
+          throw new Error("No source loaded");
+        }
+        switch (message.command) {
+          case "play":
+            await player.play();
+            break;
+          case "pause":
+            player.pause();
+            break;
+          case "seek":
+            player.seek(message.time);
+            break;
+          case "setVolume":
+            player.setVolume(message.volume, message.muted);
+            break;
+          case "load":
+            setSource({
+              ...message.source,
+              autoplay: message.source.autoplay ?? true,
+            });
+            break;
+        }
+      } catch (error) {
+        failure = error instanceof Error ? error.message : String(error);
+      }
+
+      if (message.id) {
+        window.parent.postMessage(createResponseMessage(message.id, failure), event.origin);
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [allowedOrigins]);
+
+  const handleStateChange = useCallback(
+    (status: PlaybackStatus, error: PlayerError | null) =>
+      postEvent({ event: "state", status, error: error?.message ?? null }),
+    [postEvent]
+  );
+
+  const handleError = useCallback(
+    ({ message, category, code, status, recoverable }: PlayerError) =>
+      postEvent({ event: "error", message, category, code, status, recoverable }),
+    [postEvent]
+  );
+
+  const handleTimeUpdate = useCallback(
+    ({ currentTime, duration, isLive }: PlayerTimeUpdate) => {
+      const now = Date.now();
+      if (now - lastTimeUpdateRef.current < TIME_UPDATE_INTERVAL) return;
+      lastTimeUpdateRef.current = now;
+      postEvent({ event: "timeupdate", currentTime, duration: Number.isFinite(duration) ? duration : 0, live: isLive });
+    },
+    [postEvent]
+  );
+
+  if (!source) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-black text-sm text-gray-400">
+        No stream specified. Pass ?src= or send a load command.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen w-screen bg-black">
+      <StreamPlayer
+        ref={playerRef}
+        source={source}
+        autoPlay={source.autoplay}
+        muted={muted}
+        poster={source.poster}
+        startTime={source.startTime}
+        controls={controls}
+        onStateChange={handleStateChange}
+        onError={handleError}
+        onTimeUpdate={handleTimeUpdate}
+        className="h-full aspect-auto rounded-none"
+      />
+    </div>
+  );
+};
+
+export default Embed;
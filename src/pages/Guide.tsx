@@ -0,0 +1,173 @@
+import { useEffect, useMemo, useRef } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { CalendarClock, Tv } from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
+import { GuideImport } from "@/components/GuideImport";
+import { useIptv } from "@/hooks/use-iptv";
+import { useChannels } from "@/hooks/use-library";
+import { useNow } from "@/hooks/use-now";
+import type { StreamSource } from "@/lib/iptv/types";
+import { formatClockTime, getChannelProgrammes, type EpgProgramme } from "@/lib/iptv/xmltv";
+import { streamPath } from "@/lib/routes";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+const PX_PER_MINUTE = 4;
+const SLOT_MINUTES = 30;
+const CHANNEL_COLUMN_WIDTH = 200;
+const MAX_GUIDE_HOURS = 24;
+
+const MINUTE = 60_000;
+
+const toOffset = (time: number, windowStart: number) => ((time - windowStart) / MINUTE) * PX_PER_MINUTE;
+
+const Guide = () => {
+  const { guide } = useIptv();
+  const { data: channels = [] } = useChannels();
+  const navigate = useNavigate();
+  const now = useNow();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const rows = useMemo(
+    () => channels.map((channel) => ({ channel, programmes: getChannelProgrammes(guide, channel) })),
+    [channels, guide]
+  );
+
+  // The window starts half an hour before the current slot so the live programme is never cut off.
+  const windowStart = useMemo(() => {
+    const slot = SLOT_MINUTES * MINUTE;
+    return Math.floor(Date.now() / slot) * slot - slot;
+  }, []);
+
+  const windowEnd = useMemo(() => {
+    const lastStop = rows.reduce(
+      (latest, { programmes }) => Math.max(latest, programmes[programmes.length - 1]?.stop ?? latest),
+      windowStart
+    );
+    return Math.min(lastStop, windowStart + MAX_GUIDE_HOURS * 60 * MINUTE);
+  }, [rows, windowStart]);
+
+  const slots = useMemo(() => {
+    const result: number[] = [];
+    for (let time = windowStart; time < windowEnd; time += SLOT_MINUTES * MINUTE) result.push(time);
+    return result;
+  }, [windowStart, windowEnd]);
+
+  const timelineWidth = toOffset(windowEnd, windowStart);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ left: Math.max(0, toOffset(Date.now(), windowStart) - 120) });
+  }, [windowStart, guide]);
+
+  const handleTune = (channel: StreamSource) => {
+    toast.success(`Now playing: ${channel.name}`);
+    navigate(streamPath(channel));
+  };
+
+  const renderProgramme = (channel: StreamSource, programme: EpgProgramme) => {
+    const start = Math.max(programme.start, windowStart);
+    const stop = Math.min(programme.stop, windowEnd);
+    if (stop <= start) return null;
+
+    const isLive = programme.start <= now && programme.stop > now;
+    return (
+      <button
+        key={`${programme.start}-${programme.title}`}
+        type="button"
+        onClick={() => handleTune(channel)}
+        title={[programme.title, programme.subTitle, programme.description].filter(Boolean).join("\n")}
+        className={cn(
+          "absolute top-1 bottom-1 overflow-hidden rounded border px-2 py-1 text-left text-xs transition-colors",
+          isLive
+            ? "border-primary/50 bg-primary/20 hover:bg-primary/30"
+            : "border-border/50 bg-card/60 hover:bg-accent",
+          programme.stop <= now && "opacity-60"
+        )}
+        style={{ left: toOffset(start, windowStart), width: toOffset(stop, windowStart) - toOffset(start, windowStart) }}
+      >
+        <div className="truncate font-medium">{programme.title}</div>
+        <div className="truncate text-muted-foreground">
+          {formatClockTime(programme.start)}–{formatClockTime(programme.stop)}
+        </div>
+      </button>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-8 max-w-7xl">
+        <h2 className="text-2xl font-bold mb-6 flex items-center gap-2">
+          <CalendarClock className="w-6 h-6 text-primary" />
+          TV Guide
+        </h2>
+
+        {!guide && <GuideImport />}
+
+        {channels.length === 0 ? (
+          <p className="text-muted-foreground">
+            Import a playlist in your <Link to="/library" className="text-primary underline">library</Link> to see
+            its channels here.
+          </p>
+        ) : (
+          <div ref={scrollRef} className="overflow-auto rounded-lg border border-border/50 max-h-[70vh]">
+            <div className="relative" style={{ width: CHANNEL_COLUMN_WIDTH + timelineWidth }}>
+              <div className="sticky top-0 z-20 flex h-8 border-b border-border/50 bg-background">
+                <div className="sticky left-0 z-10 shrink-0 bg-background" style={{ width: CHANNEL_COLUMN_WIDTH }} />
+                {slots.map((slot) => (
+                  <div
+                    key={slot}
+                    className="shrink-0 border-l border-border/50 px-2 text-xs leading-8 text-muted-foreground"
+                    style={{ width: SLOT_MINUTES * PX_PER_MINUTE }}
+                  >
+                    {formatClockTime(slot)}
+                  </div>
+                ))}
+              </div>
+
+              {rows.map(({ channel, programmes }) => (
+                <div key={channel.id ?? channel.src} className="flex h-16 border-b border-border/30">
+                  <button
+                    type="button"
+                    onClick={() => handleTune(channel)}
+                    className="sticky left-0 z-10 flex shrink-0 items-center gap-2 border-r border-border/50 bg-background px-3 text-left text-sm hover:bg-accent"
+                    style={{ width: CHANNEL_COLUMN_WIDTH }}
+                  >
+                    {channel.logo ? (
+                      <img src={channel.logo} alt="" loading="lazy" className="h-8 w-8 shrink-0 object-contain" />
+                    ) : (
+                      <Tv className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    )}
+                    <span className="truncate">{channel.name}</span>
+                  </button>
+                  <div className="relative flex-1">
+                    {programmes.length > 0 ? (
+                      programmes.map((programme) => renderProgramme(channel, programme))
+                    ) : (
+                      <div
+                        className="sticky px-3 text-xs leading-[4rem] text-muted-foreground"
+                        style={{ left: CHANNEL_COLUMN_WIDTH }}
+                      >
+                        No guide data
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {now >= windowStart && now < windowEnd && (
+                <div
+                  className="pointer-events-none absolute top-0 bottom-0 z-10 w-0.5 bg-primary"
+                  style={{ left: CHANNEL_COLUMN_WIDTH + toOffset(now, windowStart) }}
+                />
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Guide;
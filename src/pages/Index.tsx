@@ -1,17 +1,20 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { StreamPlayer } from "@/components/StreamPlayer";
+import { AppHeader } from "@/components/AppHeader";
+import { LibraryPanel } from "@/components/LibraryPanel";
+import { NowNext } from "@/components/NowNext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
-import { Play, Radio, Sparkles } from "lucide-react";
+import { Loader2, Play, Radio, Sparkles } from "lucide-react";
 import { toast } from "sonner";
-
-interface StreamSource {
-  name: string;
-  src: string;
-  type: "hls" | "dash" | "mp4";
-  description: string;
-}
+import { useIptv } from "@/hooks/use-iptv";
+import { useLibraryActions, useLibraryStream } from "@/hooks/use-library";
+import { useNow } from "@/hooks/use-now";
+import type { StreamSource, StreamType } from "@/lib/iptv/types";
+import { getChannelProgrammes } from "@/lib/iptv/xmltv";
+import { parsePlayParams, playPath, resolveStreamType, streamPath, streamTypeLabel, watchPath } from "@/lib/routes";
 
 const DEMO_STREAMS: StreamSource[] = [
   {
@@ -24,7 +27,14 @@ const DEMO_STREAMS: StreamSource[] = [
     name: "Sintel (HLS)",
     src: "https://demo.unified-streaming.com/k8s/features/stable/video/tears-of-steel/tears-of-steel.ism/.m3u8",
     type: "hls",
-    description: "Adaptive HLS streaming"
+    description: "Adaptive HLS streaming with a DASH fallback",
+    alternates: [
+      {
+        src: "https://demo.unified-streaming.com/k8s/features/stable/video/tears-of-steel/tears-of-steel.ism/.mpd",
+        type: "dash",
+        label: "DASH",
+      },
+    ],
   },
   {
     name: "Test Stream (HLS)",
@@ -35,77 +45,109 @@ const DEMO_STREAMS: StreamSource[] = [
 ];
 
 const Index = () => {
-  const [currentStream, setCurrentStream] = useState<StreamSource>(DEMO_STREAMS[0]);
+  const { channelId } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { guide } = useIptv();
+  const { addChannel, recordWatch } = useLibraryActions();
   const [customUrl, setCustomUrl] = useState("");
+  const now = useNow();
+
+  // The URL is the source of truth: /watch/:channelId, /play?src=&type=, or the first demo on "/".
+  const sharedStream = useMemo(() => parsePlayParams(searchParams), [searchParams]);
+  const { data: libraryStream, isPending: isResolving } = useLibraryStream(channelId);
+  const routeStream = channelId ? libraryStream ?? null : sharedStream;
+  const isMissing = !!channelId && !isResolving && !libraryStream;
+  const currentStream = channelId ? routeStream : routeStream ?? DEMO_STREAMS[0];
+  const currentProgrammes = useMemo(
+    () => (currentStream ? getChannelProgrammes(guide, currentStream) : []),
+    [guide, currentStream]
+  );
+
+  const recordedSrcRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!routeStream || recordedSrcRef.current === routeStream.src) return;
+    recordedSrcRef.current = routeStream.src;
+    recordWatch(routeStream);
+  }, [routeStream, recordWatch]);
+
+  const playStream = (stream: StreamSource) => {
+    navigate(streamPath(stream));
+    toast.success(`Now playing: ${stream.name}`);
+  };
 
-  const handleLoadCustomStream = () => {
+  const handleLoadCustomStream = async () => {
     if (!customUrl.trim()) {
       toast.error("Please enter a stream URL");
       return;
     }
 
-    let type: "hls" | "dash" | "mp4" = "mp4";
-    if (customUrl.includes(".m3u8")) {
-      type = "hls";
-    } else if (customUrl.includes(".mpd")) {
-      type = "dash";
+    // Further URLs separated by whitespace are backups, tried in order.
+    const [src, ...backups] = customUrl.trim().split(/\s+/);
+    let type: StreamType | undefined;
+    try {
+      type = await resolveStreamType(src);
+    } catch (error) {
+      console.error("Invalid stream URL:", error);
+      toast.error(error instanceof Error ? error.message : "Invalid stream URL");
+      return;
     }
-
-    setCurrentStream({
+    const stream: StreamSource = {
       name: "Custom Stream",
-      src: customUrl,
-      type: type,
-      description: "Custom stream URL"
-    });
+      src,
+      type,
+      description: "Custom stream URL",
+      group: "Custom",
+      alternates: backups.length > 0 ? backups.map((backup) => ({ src: backup })) : undefined,
+    };
+    const saved = await addChannel(stream);
+    navigate(saved ? watchPath(saved.id) : playPath(stream));
 
     toast.success("Stream loaded successfully!");
   };
 
   return (
     <div className="min-h-screen bg-background">
-      {/* Hero Section */}
-      <header className="border-b border-border/50 backdrop-blur-sm bg-background/50 sticky top-0 z-50">
-        <div className="container mx-auto px-4 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-primary to-blue-500 flex items-center justify-center">
-                <Radio className="w-6 h-6 text-white" />
-              </div>
-              <div>
-                <h1 className="text-xl font-bold bg-gradient-to-r from-primary via-purple-400 to-blue-400 bg-clip-text text-transparent">
-                  StreamPlay
-                </h1>
-                <p className="text-xs text-muted-foreground">Modern Live Streaming</p>
-              </div>
-            </div>
-            <div className="flex items-center gap-2">
-              <Sparkles className="w-4 h-4 text-primary animate-pulse" />
-              <span className="text-sm text-muted-foreground hidden sm:inline">
-                HLS • DASH • MP4
-              </span>
-            </div>
-          </div>
-        </div>
-      </header>
+      <AppHeader />
 
       <main className="container mx-auto px-4 py-8 max-w-7xl">
         {/* Current Stream */}
         <div className="mb-8">
-          <div className="mb-4">
-            <h2 className="text-2xl font-bold mb-2 flex items-center gap-2">
-              <Play className="w-6 h-6 text-primary fill-current" />
-              Now Playing
-            </h2>
-            <div className="flex items-center gap-3">
-              <span className="text-lg text-foreground">{currentStream.name}</span>
-              <span className="px-2 py-1 rounded-full text-xs font-medium bg-primary/20 text-primary border border-primary/30">
-                {currentStream.type.toUpperCase()}
-              </span>
-            </div>
-            <p className="text-sm text-muted-foreground mt-1">{currentStream.description}</p>
-          </div>
+          {currentStream ? (
+            <>
+              <div className="mb-4">
+                <h2 className="text-2xl font-bold mb-2 flex items-center gap-2">
+                  <Play className="w-6 h-6 text-primary fill-current" />
+                  Now Playing
+                </h2>
+                <div className="flex items-center gap-3">
+                  <span className="text-lg text-foreground">{currentStream.name}</span>
+                  {streamTypeLabel(currentStream) && (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-primary/20 text-primary border border-primary/30">
+                      {streamTypeLabel(currentStream)}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground mt-1">{currentStream.description}</p>
+                <NowNext programmes={currentProgrammes} now={now} className="mt-3 max-w-xl" />
+              </div>
 
-          <StreamPlayer source={currentStream} />
+              <StreamPlayer source={currentStream} title={currentStream.name} artwork={currentStream.logo} />
+            </>
+          ) : (
+            <Card className="aspect-video flex flex-col items-center justify-center gap-3 bg-card/50 border-border/50 text-center">
+              {isMissing ? (
+                <>
+                  <p className="text-lg font-semibold">Channel not found</p>
+                  <p className="text-sm text-muted-foreground">
+                    It may have been removed from your <Link to="/library" className="text-primary underline">library</Link>.
+                  </p>
+                </>
+              ) : (
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              )}
+            </Card>
+          )}
         </div>
 
         {/* Custom Stream Input */}
@@ -116,7 +158,7 @@ const Index = () => {
           </h3>
           <div className="flex gap-3">
             <Input
-              placeholder="Enter HLS (.m3u8), DASH (.mpd), or MP4 stream URL"
+              placeholder="Enter HLS (.m3u8), DASH (.mpd), MPEG-TS, FLV or MP4 stream URL"
               value={customUrl}
               onChange={(e) => setCustomUrl(e.target.value)}
               onKeyDown={(e) => e.key === "Enter" && handleLoadCustomStream()}
@@ -128,10 +170,13 @@ const Index = () => {
             </Button>
           </div>
           <p className="text-xs text-muted-foreground mt-3">
-            Supports HLS (HTTP Live Streaming), DASH (Dynamic Adaptive Streaming), and direct MP4 URLs
+            Supports HLS (HTTP Live Streaming), DASH (Dynamic Adaptive Streaming), live MPEG-TS and HTTP-FLV, WebRTC
+            via WHEP (whep://), and direct MP4 URLs. Add backup URLs after the first one, separated by spaces.
           </p>
         </Card>
 
+        <LibraryPanel currentSrc={currentStream?.src} guide={guide} now={now} onSelect={playStream} />
+
         {/* Demo Streams */}
         <div>
           <h3 className="text-lg font-semibold mb-4">Demo Streams</h3>
@@ -140,32 +185,30 @@ const Index = () => {
               <Card
                 key={index}
                 className={`p-4 cursor-pointer transition-all hover:shadow-lg hover:border-primary/50 bg-card/50 backdrop-blur-sm ${
-                  currentStream.src === stream.src ? "border-primary shadow-lg shadow-primary/20" : ""
+                  currentStream?.src === stream.src ? "border-primary shadow-lg shadow-primary/20" : ""
                 }`}
-                onClick={() => {
-                  setCurrentStream(stream);
-                  toast.success(`Now playing: ${stream.name}`);
-                }}
+                onClick={() => playStream(stream)}
               >
                 <div className="flex items-start justify-between mb-2">
                   <h4 className="font-semibold text-foreground">{stream.name}</h4>
-                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-primary/20 text-primary border border-primary/30">
-                    {stream.type.toUpperCase()}
-                  </span>
+                  {streamTypeLabel(stream) && (
+                    <span className="px-2 py-0.5 rounded text-xs font-medium bg-primary/20 text-primary border border-primary/30">
+                      {streamTypeLabel(stream)}
+                    </span>
+                  )}
                 </div>
                 <p className="text-sm text-muted-foreground mb-3">{stream.description}</p>
                 <Button
                   size="sm"
-                  variant={currentStream.src === stream.src ? "default" : "outline"}
+                  variant={currentStream?.src === stream.src ? "default" : "outline"}
                   className="w-full"
                   onClick={(e) => {
                     e.stopPropagation();
-                    setCurrentStream(stream);
-                    toast.success(`Now playing: ${stream.name}`);
+                    playStream(stream);
                   }}
                 >
                   <Play className="w-3 h-3 mr-2 fill-current" />
-                  {currentStream.src === stream.src ? "Now Playing" : "Play Stream"}
+                  {currentStream?.src === stream.src ? "Now Playing" : "Play Stream"}
                 </Button>
               </Card>
             ))}
@@ -190,7 +233,7 @@ const Index = () => {
             </div>
             <h3 className="font-semibold mb-2">Multiple Formats</h3>
             <p className="text-sm text-muted-foreground">
-              Support for HLS, DASH, and MP4 formats with seamless playback
+              Support for HLS, DASH, MPEG-TS, FLV, WebRTC and MP4 formats with seamless playback
             </p>
           </Card>
 
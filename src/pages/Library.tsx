@@ -0,0 +1,52 @@
+import { useNavigate } from "react-router-dom";
+import { Library as LibraryIcon } from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
+import { GuideImport } from "@/components/GuideImport";
+import { LibraryPanel } from "@/components/LibraryPanel";
+import { PlaylistImport } from "@/components/PlaylistImport";
+import { useIptv } from "@/hooks/use-iptv";
+import { useLibraryActions } from "@/hooks/use-library";
+import { useNow } from "@/hooks/use-now";
+import { getPlaylistGuideUrl } from "@/lib/iptv/m3u";
+import { streamPath } from "@/lib/routes";
+import { toast } from "sonner";
+
+const Library = () => {
+  const navigate = useNavigate();
+  const { guide } = useIptv();
+  const { savePlaylist } = useLibraryActions();
+  const now = useNow();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-8 max-w-7xl">
+        <h2 className="text-2xl font-bold mb-6 flex items-center gap-2">
+          <LibraryIcon className="w-6 h-6 text-primary" />
+          Library
+        </h2>
+
+        <PlaylistImport
+          onImport={async (imported, playlist, origin) => {
+            const saved = await savePlaylist({ ...origin, guideUrl: getPlaylistGuideUrl(playlist) }, imported);
+            if (saved) toast.success(`Imported ${saved.channelCount} channel${saved.channelCount === 1 ? "" : "s"}`);
+          }}
+        />
+
+        <GuideImport />
+
+        <LibraryPanel
+          guide={guide}
+          now={now}
+          onSelect={(channel) => {
+            navigate(streamPath(channel));
+            toast.success(`Now playing: ${channel.name}`);
+          }}
+        />
+      </main>
+    </div>
+  );
+};
+
+export default Library;
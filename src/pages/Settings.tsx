@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { Settings as SettingsIcon, Trash2 } from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLibraryActions } from "@/hooks/use-library";
+import { formatLanguage } from "@/lib/player/audio-tracks";
+import { getPreferredAudioLanguage, setPreferredAudioLanguage } from "@/lib/player/preferences";
+import { toast } from "sonner";
+
+const AUTO_LANGUAGE = "auto";
+
+const AUDIO_LANGUAGES = ["en", "es", "fr", "de", "it", "pt", "nl", "sv", "pl", "tr", "ru", "ar", "hi", "ja", "ko", "zh"];
+
+const Settings = () => {
+  const { clearRecents, clearLibrary } = useLibraryActions();
+  const [audioLanguage, setAudioLanguage] = useState(() => getPreferredAudioLanguage() ?? AUTO_LANGUAGE);
+
+  const languages = AUDIO_LANGUAGES.includes(audioLanguage) || audioLanguage === AUTO_LANGUAGE
+    ? AUDIO_LANGUAGES
+    : [audioLanguage, ...AUDIO_LANGUAGES];
+
+  const handleAudioLanguageChange = (value: string) => {
+    setAudioLanguage(value);
+    setPreferredAudioLanguage(value === AUTO_LANGUAGE ? null : value);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <h2 className="text-2xl font-bold mb-6 flex items-center gap-2">
+          <SettingsIcon className="w-6 h-6 text-primary" />
+          Settings
+        </h2>
+
+        <Card className="p-6 mb-6 bg-card/50 backdrop-blur-sm border-border/50 space-y-4">
+          <h3 className="text-lg font-semibold">Playback</h3>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="audio-language">Preferred audio language</Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                Used when a stream offers several audio tracks. Picking a track in the player also updates this.
+              </p>
+            </div>
+            <Select value={audioLanguage} onValueChange={handleAudioLanguageChange}>
+              <SelectTrigger id="audio-language" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_LANGUAGE}>Stream default</SelectItem>
+                {languages.map((language) => (
+                  <SelectItem key={language} value={language}>
+                    {formatLanguage(language)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </Card>
+
+        <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/50 space-y-4">
+          <h3 className="text-lg font-semibold">Library data</h3>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium">Watch history</p>
+              <p className="text-xs text-muted-foreground mt-1">Clears the recently watched list.</p>
+            </div>
+            <Button
+              variant="outline"
+              onClick={async () => {
+                await clearRecents();
+                toast.success("Watch history cleared");
+              }}
+            >
+              Clear history
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium">Reset library</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Removes all channels, playlists, favorites, groups and history stored in this browser.
+              </p>
+            </div>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive">
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Reset
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Reset the library?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Every imported playlist, channel, favorite, group and history entry will be deleted. This cannot be
+                    undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={async () => {
+                      await clearLibrary();
+                      toast.success("Library reset");
+                    }}
+                  >
+                    Reset library
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,3 @@
+declare module "shaka-player/dist/shaka-player.ui.js" {
+  export default shaka;
+}
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Comma-separated origins allowed to control `/embed` via postMessage. */
+  readonly VITE_EMBED_ALLOWED_ORIGINS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}